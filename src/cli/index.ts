@@ -3,6 +3,19 @@ import { program } from "commander";
 import chalk from "chalk";
 import * as fs from "fs/promises";
 import * as path from "path";
+import { createServer } from "http";
+import { pathToFileURL } from "url";
+import { stringify as stringifyYaml } from "yaml";
+import { isValidSkillName } from "../types.js";
+import { toSarif } from "../lib/sarif.js";
+import { validateSkillsDirectory } from "../lib/validate-directory.js";
+import { buildStaticSkills } from "../lib/build.js";
+import { pullSkills, readLockfile } from "../lib/pull.js";
+import { createFileProvider } from "../lib/providers.js";
+import { toNodeListener } from "../lib/node.js";
+import { createSkillsHandler } from "../handler/index.js";
+import type { PulledSkill, SkillProvider } from "../types.js";
+import type { SkillReport } from "../lib/sarif.js";
 
 interface InitOptions {
   dir: string;
@@ -15,8 +28,41 @@ interface CreateSkillOptions {
   description?: string;
 }
 
+interface ValidateOptions {
+  format: "text" | "json" | "sarif";
+  strict: boolean;
+  tokenBudget: string;
+}
+
+interface BuildOptions {
+  out: string;
+  provider?: string;
+  basePath: string;
+  cacheControl?: string;
+  archives: boolean;
+  originalSkillMd: boolean;
+  headers: boolean;
+  redirects: boolean;
+}
+
+interface PullOptions {
+  dir: string;
+  update: boolean;
+  force: boolean;
+}
+
+interface ServeOptions {
+  port: string;
+  host: string;
+  basePath: string;
+  archives: boolean;
+  verbose: boolean;
+}
+
 const PACKAGE_VERSION = "0.1.0";
 
+const DEFAULT_TOKEN_BUDGET = 5000;
+
 program
   .name("skills-handler")
   .description("CLI for setting up Agent Skills endpoints")
@@ -104,9 +150,6 @@ Provide examples of the skill in action.
       // Check for required dependencies
       console.log(chalk.blue("Make sure you have the required dependencies:\n"));
       console.log(chalk.gray("  npm install skills-handler"));
-      if (!useStatic) {
-        console.log(chalk.gray("  npm install gray-matter"));
-      }
       console.log();
     } catch (error) {
       console.error(chalk.red("Error setting up skills endpoint:"), error);
@@ -124,8 +167,7 @@ program
     const description = options.description || `Description for ${name} skill.`;
 
     // Validate skill name
-    const SKILL_NAME_PATTERN = /^(?!-)(?!.*--)[a-z0-9-]{1,64}(?<!-)$/;
-    if (!SKILL_NAME_PATTERN.test(name)) {
+    if (!isValidSkillName(name)) {
       console.error(
         chalk.red(
           "Invalid skill name. Must be 1-64 lowercase alphanumeric characters or hyphens."
@@ -151,9 +193,7 @@ program
 
       // Create SKILL.md
       const skillMd = `---
-name: ${name}
-description: ${description}
----
+${stringifyYaml({ name, description }, { lineWidth: 0 })}---
 
 # ${name.replace(/-/g, " ").replace(/\b\w/g, (c: string) => c.toUpperCase())}
 
@@ -183,110 +223,310 @@ Example usage or code here
 program
   .command("validate [directory]")
   .description("Validate skills in a directory")
-  .action(async (directory = "skills") => {
-    console.log(chalk.blue(`Validating skills in ${directory}...\n`));
+  .option(
+    "-f, --format <format>",
+    "Output format: text, json or sarif",
+    "text"
+  )
+  .option("--strict", "Treat warnings as failures", false)
+  .option(
+    "--token-budget <tokens>",
+    "Warn when a SKILL.md body exceeds this many tokens",
+    String(DEFAULT_TOKEN_BUDGET)
+  )
+  .action(async (directory = "skills", options: ValidateOptions) => {
+    const { format, strict } = options;
+    if (!["text", "json", "sarif"].includes(format)) {
+      console.error(
+        chalk.red(`Unknown format "${format}". Use text, json or sarif.`)
+      );
+      process.exit(1);
+    }
 
-    const SKILL_NAME_PATTERN = /^(?!-)(?!.*--)[a-z0-9-]{1,64}(?<!-)$/;
+    const tokenBudget = Number(options.tokenBudget);
+    if (!Number.isInteger(tokenBudget) || tokenBudget <= 0) {
+      console.error(chalk.red("--token-budget must be a positive integer."));
+      process.exit(1);
+    }
+
+    if (format === "text") {
+      console.log(chalk.blue(`Validating skills in ${directory}...\n`));
+    }
 
     try {
-      const entries = await fs.readdir(directory, { withFileTypes: true });
-      let validCount = 0;
-      let invalidCount = 0;
+      const reports = await validateSkillsDirectory(directory, { tokenBudget });
 
-      for (const entry of entries) {
-        if (!entry.isDirectory()) continue;
+      // In strict mode any diagnostic, including warnings, fails the skill
+      for (const report of reports) {
+        report.valid = report.diagnostics.every(
+          (d) => d.severity !== "error" && !strict
+        );
+      }
 
-        const skillDir = path.join(directory, entry.name);
-        const skillMdPath = path.join(skillDir, "SKILL.md");
+      const validCount = reports.filter((report) => report.valid).length;
+      const invalidCount = reports.length - validCount;
 
-        // Check name format
-        if (!SKILL_NAME_PATTERN.test(entry.name)) {
-          console.log(chalk.red(`✗ ${entry.name}: Invalid skill name format`));
-          invalidCount++;
-          continue;
+      if (format === "json") {
+        console.log(
+          JSON.stringify(
+            { valid: invalidCount === 0, strict, skills: reports },
+            null,
+            2
+          )
+        );
+      } else if (format === "sarif") {
+        console.log(
+          JSON.stringify(
+            toSarif(reports, { strict, toolVersion: PACKAGE_VERSION }),
+            null,
+            2
+          )
+        );
+      } else {
+        for (const report of reports) {
+          printReport(report);
         }
+        console.log(
+          chalk.blue(
+            `\nValidation complete: ${validCount} valid, ${invalidCount} invalid`
+          )
+        );
+      }
 
-        // Check for SKILL.md
-        try {
-          await fs.access(skillMdPath);
-        } catch {
-          console.log(chalk.red(`✗ ${entry.name}: Missing SKILL.md`));
-          invalidCount++;
-          continue;
+      // Set the exit code rather than exiting so piped output is flushed
+      if (invalidCount > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      console.error(chalk.red("Error validating skills:"), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("build [directory]")
+  .description("Write the skills endpoint as static files")
+  .option("-o, --out <directory>", "Output directory", "public")
+  .option(
+    "-p, --provider <module>",
+    "Module exporting a SkillProvider, used instead of a skills directory"
+  )
+  .option(
+    "--base-path <path>",
+    "Base path of the endpoint",
+    "/.well-known/skills"
+  )
+  .option("--cache-control <value>", "Cache-Control header value")
+  .option("--archives", "Include .tar.gz archives of each skill", false)
+  .option(
+    "--original-skill-md",
+    "Write SKILL.md files as authored instead of reconstructed",
+    false
+  )
+  .option("--headers", "Write a _headers file with response headers", false)
+  .option(
+    "--redirects",
+    "Write a _redirects file with the handler's redirects",
+    false
+  )
+  .action(async (directory = "skills", options: BuildOptions) => {
+    try {
+      const provider = options.provider
+        ? await loadProviderModule(options.provider)
+        : await createFileProvider(directory, { cacheTtl: Infinity });
+
+      const { skillCount, files } = await buildStaticSkills(
+        provider,
+        options.out,
+        {
+          basePath: options.basePath,
+          cacheControl: options.cacheControl,
+          archives: options.archives,
+          serveOriginalSkillMd: options.originalSkillMd,
+          headers: options.headers,
+          redirects: options.redirects,
         }
+      );
 
-        // Parse and validate SKILL.md
-        try {
-          const content = await fs.readFile(skillMdPath, "utf-8");
-
-          // Simple frontmatter parsing (regex-based for CLI)
-          const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/);
-          if (!frontmatterMatch) {
-            console.log(
-              chalk.red(`✗ ${entry.name}: Missing or invalid frontmatter`)
-            );
-            invalidCount++;
-            continue;
-          }
+      for (const file of files) {
+        console.log(chalk.green(`✓ ${path.join(options.out, file)}`));
+      }
+      console.log(
+        chalk.blue(`\nBuilt ${skillCount} skills into ${options.out}`)
+      );
+    } catch (error) {
+      console.error(chalk.red("Error building skills:"), error);
+      process.exit(1);
+    }
+  });
 
-          const frontmatter = frontmatterMatch[1];
-          const nameMatch = frontmatter?.match(/^name:\s*(.+)$/m);
-          const descMatch = frontmatter?.match(/^description:\s*(.+)$/m);
-
-          if (!nameMatch || !descMatch) {
-            console.log(
-              chalk.red(
-                `✗ ${entry.name}: Frontmatter missing name or description`
-              )
-            );
-            invalidCount++;
-            continue;
+program
+  .command("pull [origin] [names...]")
+  .description("Download skills from another site's skills endpoint")
+  .option("-d, --dir <directory>", "Skills directory", "skills")
+  .option("--update", "Refresh previously pulled skills that changed", false)
+  .option(
+    "--force",
+    "Overwrite skill directories that weren't pulled",
+    false
+  )
+  .action(
+    async (
+      origin: string | undefined,
+      names: string[],
+      options: PullOptions
+    ) => {
+      try {
+        let sources: { origin: string; names?: string[] }[];
+
+        if (origin) {
+          sources = [{ origin, names: names.length > 0 ? names : undefined }];
+        } else if (options.update) {
+          // Refresh every pulled skill from the source it was pulled from
+          const lockfile = await readLockfile(options.dir);
+          const bySource = new Map<string, string[]>();
+          for (const [name, entry] of Object.entries(lockfile.skills)) {
+            bySource.set(entry.source, [
+              ...(bySource.get(entry.source) ?? []),
+              name,
+            ]);
           }
+          sources = Array.from(bySource, ([source, sourceNames]) => ({
+            origin: source,
+            names: sourceNames,
+          }));
+        } else {
+          console.error(
+            chalk.red("Specify an origin to pull from, or use --update")
+          );
+          process.exit(1);
+        }
 
-          const fmName = nameMatch[1]?.trim();
-          const fmDesc = descMatch[1]?.trim();
-
-          if (fmName !== entry.name) {
-            console.log(
-              chalk.yellow(
-                `⚠ ${entry.name}: Frontmatter name "${fmName}" doesn't match directory name`
-              )
-            );
-          }
+        if (sources.length === 0) {
+          console.log(chalk.yellow(`No pulled skills in ${options.dir}`));
+          return;
+        }
 
-          if (!fmDesc || fmDesc.length === 0) {
-            console.log(chalk.red(`✗ ${entry.name}: Description is empty`));
-            invalidCount++;
-            continue;
+        let failed = false;
+        let skipped = false;
+        for (const source of sources) {
+          const result = await pullSkills(source.origin, options.dir, {
+            names: source.names,
+            update: options.update,
+            force: options.force,
+          });
+
+          console.log(chalk.blue(`\nPulled from ${result.source}:`));
+          for (const skill of result.skills) {
+            printPulledSkill(skill, options.dir);
+            if (skill.status === "failed") failed = true;
+            if (skill.status === "skipped") skipped = true;
           }
+        }
 
-          if (fmDesc.length > 1024) {
-            console.log(
-              chalk.red(`✗ ${entry.name}: Description exceeds 1024 characters`)
-            );
-            invalidCount++;
-            continue;
-          }
+        if (skipped) {
+          console.log(
+            chalk.gray(
+              "\nUse --update to refresh pulled skills, or --force to overwrite local ones."
+            )
+          );
+        }
 
-          console.log(chalk.green(`✓ ${entry.name}: Valid`));
-          validCount++;
-        } catch (error) {
-          console.log(chalk.red(`✗ ${entry.name}: Error reading SKILL.md`));
-          invalidCount++;
+        if (failed) {
+          process.exitCode = 1;
         }
+      } catch (error) {
+        console.error(chalk.red("Error pulling skills:"), error);
+        process.exit(1);
       }
+    }
+  );
 
-      console.log(
-        chalk.blue(
-          `\nValidation complete: ${validCount} valid, ${invalidCount} invalid`
-        )
-      );
+program
+  .command("serve [directory]")
+  .description("Serve skills locally, reloading them as they change")
+  .option("-p, --port <port>", "Port to listen on", "3000")
+  .option("-H, --host <host>", "Host to listen on", "localhost")
+  .option(
+    "--base-path <path>",
+    "Base path of the endpoint",
+    "/.well-known/skills"
+  )
+  .option("--archives", "Serve .tar.gz archives of each skill", false)
+  .option("--verbose", "Log how the handler routes each request", false)
+  .action(async (directory = "skills", options: ServeOptions) => {
+    const port = Number(options.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      console.error(chalk.red(`Invalid port: ${options.port}`));
+      process.exit(1);
+    }
 
-      if (invalidCount > 0) {
+    try {
+      const provider = await createFileProvider(directory, {
+        watch: true,
+        onChange: (event) => {
+          const action = {
+            SKILL_ADDED: "added",
+            SKILL_CHANGED: "reloaded",
+            SKILL_REMOVED: "removed",
+          }[event.type];
+          console.log(chalk.magenta(`↻ ${event.skillName} ${action}`));
+        },
+      });
+
+      // Skills change while serving, so clients should always revalidate
+      const handler = createSkillsHandler(provider, {
+        basePath: options.basePath,
+        cacheControl: "no-cache",
+        archives: options.archives,
+        verboseLogs: options.verbose,
+      });
+      const listener = toNodeListener(handler);
+      const skillCount = (await provider.getSkills()).length;
+
+      const server = createServer((req, res) => {
+        const start = performance.now();
+        res.on("finish", () => {
+          const duration = Math.round(performance.now() - start);
+          console.log(
+            `${chalk.dim(new Date().toLocaleTimeString())} ${req.method} ${req.url} ${formatStatus(res.statusCode)} ${chalk.dim(`${duration}ms`)}`
+          );
+        });
+        void listener(req, res);
+      });
+
+      server.on("error", (error) => {
+        console.error(chalk.red("Error starting server:"), error);
+        provider.close();
         process.exit(1);
-      }
+      });
+
+      server.listen(port, options.host, () => {
+        const address = server.address();
+        const actualPort =
+          address && typeof address === "object" ? address.port : port;
+        const basePath = options.basePath.replace(/\/$/, "");
+
+        console.log(
+          chalk.blue(
+            `Serving ${skillCount} skills from ${path.resolve(directory)}`
+          )
+        );
+        console.log(
+          `\n  ${chalk.bold(`http://${options.host}:${actualPort}${basePath}/index.json`)}\n`
+        );
+        console.log(chalk.dim("Watching for changes. Press Ctrl+C to stop."));
+      });
+
+      const shutdown = () => {
+        provider.close();
+        server.close();
+        server.closeAllConnections();
+      };
+      process.once("SIGINT", shutdown);
+      process.once("SIGTERM", shutdown);
     } catch (error) {
-      console.error(chalk.red("Error validating skills:"), error);
+      console.error(chalk.red("Error serving skills:"), error);
       process.exit(1);
     }
   });
@@ -333,3 +573,85 @@ const handler = createSkillsHandler(provider);
 export { handler as GET, handler as OPTIONS };
 `;
 }
+
+function printReport(report: SkillReport): void {
+  for (const diagnostic of report.diagnostics) {
+    const line = diagnostic.line ? `:${diagnostic.line}` : "";
+    const location = diagnostic.file ? `${diagnostic.file}${line} ` : "";
+    const text = `${report.name}: ${location}${diagnostic.message} (${diagnostic.code})`;
+    console.log(
+      diagnostic.severity === "error"
+        ? chalk.red(`✗ ${text}`)
+        : chalk.yellow(`⚠ ${text}`)
+    );
+  }
+
+  if (report.valid) {
+    console.log(chalk.green(`✓ ${report.name}: Valid`));
+  }
+}
+
+/**
+ * Prints what `pull` did with a skill.
+ */
+function printPulledSkill(skill: PulledSkill, skillsDir: string): void {
+  const location = path.join(skillsDir, skill.name);
+
+  switch (skill.status) {
+    case "added":
+      console.log(chalk.green(`✓ ${skill.name}: Added to ${location}`));
+      break;
+    case "updated":
+      console.log(chalk.green(`✓ ${skill.name}: Updated ${location}`));
+      break;
+    case "unchanged":
+      console.log(chalk.gray(`= ${skill.name}: Up to date`));
+      break;
+    case "skipped":
+      console.log(chalk.yellow(`- ${skill.name}: ${skill.message}`));
+      break;
+    case "failed":
+      console.log(chalk.red(`✗ ${skill.name}: ${skill.message}`));
+      printReport({
+        name: skill.name,
+        path: location,
+        valid: false,
+        diagnostics: skill.diagnostics.filter((d) => d.severity === "error"),
+      });
+      break;
+  }
+}
+
+/**
+ * Colors an HTTP status code by class for request logs.
+ */
+function formatStatus(status: number): string {
+  if (status >= 500) return chalk.red(status);
+  if (status >= 400) return chalk.yellow(status);
+  if (status >= 300) return chalk.cyan(status);
+  return chalk.green(status);
+}
+
+/**
+ * Loads a provider from a module's default export or `provider` export,
+ * which may be a provider, a promise of one, or a function returning one.
+ */
+async function loadProviderModule(modulePath: string): Promise<SkillProvider> {
+  const mod = await import(pathToFileURL(path.resolve(modulePath)).href);
+  const exported = mod.default ?? mod.provider;
+  const provider = await (typeof exported === "function"
+    ? exported()
+    : exported);
+
+  if (
+    !provider ||
+    typeof provider.getSkills !== "function" ||
+    typeof provider.getSkillFile !== "function"
+  ) {
+    throw new Error(
+      `${modulePath} must export a SkillProvider as its default export or as "provider"`
+    );
+  }
+
+  return provider;
+}
@@ -1,13 +1,53 @@
 import type {
   Skill,
+  SkillArchiveEntry,
+  SkillFile,
+  SkillFileContent,
+  SkillFileData,
   SkillProvider,
   SkillsHandlerConfig,
   SkillsHandler,
+  SkillsEvent,
   SkillIndex,
+  SkillIndexEntry,
+  SkillAuthorization,
+  RateLimitResult,
 } from "../types.js";
-import { isValidSkillName, isValidFilePath } from "../types.js";
+import {
+  isValidSkillName,
+  isValidSkillVersion,
+  isValidFilePath,
+  pickSkillFrontmatter,
+} from "../types.js";
+import { stringify as stringifyYaml } from "yaml";
+import { createTarGzStream, readAllBytes } from "../lib/archive.js";
+import { validateSkill } from "../lib/validate.js";
+import {
+  createMemoryRateLimitStore,
+  getRateLimitKey,
+} from "../lib/rate-limit.js";
+import {
+  sha256Digest,
+  sha256Hex,
+  skillDigest,
+  toContentDigest,
+} from "../lib/hash.js";
 
 const DEFAULT_CACHE_CONTROL = "public, max-age=3600";
+const DEFAULT_CORS_MAX_AGE = 86400;
+const DEFAULT_RATE_LIMIT = 60;
+const DEFAULT_RATE_LIMIT_WINDOW = 60000;
+
+/**
+ * Validators and digest describing a response body.
+ */
+interface Representation {
+  etag?: string;
+  lastModified?: Date;
+  digest?: string;
+  /** Body size in bytes, when known */
+  size?: number;
+}
 
 /**
  * Creates a skills handler that serves Agent Skills via well-known URIs.
@@ -44,82 +84,652 @@ export function createSkillsHandler(
     verboseLogs = false,
     cacheControl = DEFAULT_CACHE_CONTROL,
     cors = "*",
+    serveOriginalSkillMd = false,
+    archives = false,
+    corsMaxAge = DEFAULT_CORS_MAX_AGE,
+    authorize,
+    hidePrivateSkills = true,
+    wwwAuthenticate = "Bearer",
+    rateLimit = false,
+    analytics,
+    statsSecret,
     onEvent,
   } = config;
 
   // Normalize base path (remove trailing slash)
   const normalizedBasePath = basePath.replace(/\/$/, "");
 
+  const rateLimitOptions = rateLimit
+    ? {
+        limit: rateLimit.limit ?? DEFAULT_RATE_LIMIT,
+        window: rateLimit.window ?? DEFAULT_RATE_LIMIT_WINDOW,
+        key: rateLimit.key ?? "ip",
+        store: rateLimit.store ?? createMemoryRateLimitStore(),
+      }
+    : null;
+
   const log = verboseLogs
     ? (...args: unknown[]) => console.log("[skills-handler]", ...args)
     : () => {};
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  function emitEvent(event: Record<string, any> & { type: string; path: string }): void {
-    if (onEvent) {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      onEvent({ ...event, timestamp: Date.now() } as any);
+  // Requests for the stats route
+  const statsRequests = new WeakSet<Request>();
+
+  // The skill and file each request named, for its REQUEST_COMPLETED event
+  const requestTargets = new WeakMap<
+    Request,
+    { skillName?: string; filePath?: string }
+  >();
+
+  function emitEvent(
+    request: Request,
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    event: Record<string, any> & { type: string; path: string }
+  ): void {
+    if (!onEvent && !analytics) return;
+
+    if (event.skillName) {
+      requestTargets.set(request, {
+        skillName: event.skillName,
+        filePath: event.filePath,
+      });
+    }
+
+    // A failing listener must never fail the response
+    const reportError = (error: unknown) =>
+      console.warn("[skills-handler] onEvent failed:", error);
+    const skillsEvent = {
+      ...event,
+      method: request.method.toUpperCase(),
+      timestamp: Date.now(),
+    } as unknown as SkillsEvent;
+
+    // Stats requests would otherwise count themselves
+    if (analytics && !statsRequests.has(request)) {
+      analytics.record(skillsEvent);
+    }
+    if (!onEvent) return;
+
+    try {
+      Promise.resolve(onEvent(skillsEvent)).catch(reportError);
+    } catch (error) {
+      reportError(error);
+    }
+  }
+
+  /**
+   * Emits REQUEST_COMPLETED once the response body has been sent, counting
+   * its bytes as they're read.
+   */
+  function trackCompletion(
+    request: Request,
+    response: Response,
+    startTime: number
+  ): Response {
+    let completed = false;
+    const complete = (bytes: number, aborted: boolean) => {
+      // A cancel can race a pending read, which then reports done
+      if (completed) return;
+      completed = true;
+
+      const etag = response.headers.get("ETag");
+      const target = requestTargets.get(request);
+      emitEvent(request, {
+        type: "REQUEST_COMPLETED",
+        path: new URL(request.url).pathname,
+        status: response.status,
+        duration: Date.now() - startTime,
+        bytes,
+        userAgent: request.headers.get("User-Agent") ?? undefined,
+        cache:
+          response.status === 304
+            ? "hit"
+            : etag && response.ok
+              ? "miss"
+              : "none",
+        skillName: target?.skillName,
+        filePath: target?.filePath,
+        ...(aborted && { aborted }),
+      });
+    };
+
+    if (!response.body) {
+      complete(0, false);
+      return response;
     }
+
+    const reader = response.body.getReader();
+    let bytes = 0;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            controller.close();
+            complete(bytes, false);
+            return;
+          }
+          bytes += value.byteLength;
+          controller.enqueue(value);
+        } catch (error) {
+          controller.error(error);
+          complete(bytes, true);
+        }
+      },
+      cancel(reason) {
+        complete(bytes, true);
+        return reader.cancel(reason);
+      },
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
   }
 
   /**
-   * Creates response headers with CORS and caching.
+   * Creates response headers with caching. CORS headers are added to every
+   * response by `applyCorsHeaders` since they depend on the request origin.
    */
   function createHeaders(contentType: string): Headers {
-    const headers = new Headers({
+    return new Headers({
       "Content-Type": contentType,
       "Cache-Control": cacheControl,
     });
+  }
+
+  /**
+   * Resolves the Access-Control-Allow-Origin value for a request origin,
+   * or null when the origin is not allowed.
+   */
+  function resolveAllowedOrigin(origin: string | null): string | null {
+    if (cors === false) return null;
+    if (cors === "*") return "*";
+    if (!origin) return null;
 
-    if (cors !== false) {
-      const origin = Array.isArray(cors) ? cors.join(", ") : cors;
-      headers.set("Access-Control-Allow-Origin", origin);
-      headers.set("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS");
+    if (typeof cors === "function") {
+      return cors(origin) ? origin : null;
+    }
+
+    const patterns = Array.isArray(cors) ? cors : [cors];
+    return patterns.some((pattern) => matchesOrigin(origin, pattern))
+      ? origin
+      : null;
+  }
+
+  /**
+   * Adds CORS headers to a response. Browsers accept a single origin in
+   * Access-Control-Allow-Origin, so allowed origins are reflected.
+   */
+  function applyCorsHeaders(request: Request, headers: Headers): void {
+    if (cors === false) return;
+
+    // Responses differ per origin unless every origin is allowed
+    if (cors !== "*") {
+      headers.append("Vary", "Origin");
+    }
+
+    const allowedOrigin = resolveAllowedOrigin(request.headers.get("Origin"));
+    if (!allowedOrigin) return;
+
+    headers.set("Access-Control-Allow-Origin", allowedOrigin);
+    headers.set("Access-Control-Allow-Methods", "GET, HEAD, OPTIONS");
+    if (!headers.has("Access-Control-Allow-Headers")) {
       headers.set("Access-Control-Allow-Headers", "Content-Type");
     }
+    headers.set(
+      "Access-Control-Expose-Headers",
+      rateLimitOptions
+        ? "ETag, Content-Digest, Digest, Retry-After, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset, RateLimit-Policy"
+        : "ETag, Content-Digest, Digest"
+    );
+  }
+
+  // Whether a request without an IP or key header has been reported
+  let warnedMissingKey = false;
+
+  /**
+   * Takes a token from the client's bucket. Returns null when the request
+   * isn't limited: it has no key, or the store failed, in which case
+   * requests are let through rather than rejected.
+   */
+  async function checkRateLimit(
+    request: Request
+  ): Promise<(RateLimitResult & { key: string }) | null> {
+    if (!rateLimitOptions) return null;
+
+    const { limit, window, key, store } = rateLimitOptions;
+    try {
+      const clientKey = await getRateLimitKey(request, key);
+      if (clientKey === null) {
+        // A key function exempts requests on purpose; a missing IP or
+        // header usually means the proxy isn't setting it
+        if (typeof key !== "function" && !warnedMissingKey) {
+          warnedMissingKey = true;
+          const header = key === "ip" ? "X-Forwarded-For" : key.header;
+          console.warn(
+            `[skills-handler] Not rate limiting requests without a ${header} header; check that the proxy in front of the handler sets it`
+          );
+        }
+        return null;
+      }
+
+      const result = await store.consume(clientKey, {
+        limit,
+        window,
+        now: Date.now(),
+      });
+      return { ...result, key: clientKey };
+    } catch (error) {
+      log("Error checking rate limit:", error);
+      emitEvent(request, {
+        type: "ERROR",
+        path: new URL(request.url).pathname,
+        error: error instanceof Error ? error : new Error(String(error)),
+        context: { rateLimit: true },
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Adds RateLimit headers describing the client's bucket.
+   */
+  function setRateLimitHeaders(headers: Headers, result: RateLimitResult): void {
+    if (!rateLimitOptions) return;
+
+    const { limit, window } = rateLimitOptions;
+    headers.set("RateLimit-Limit", String(limit));
+    headers.set("RateLimit-Remaining", String(result.remaining));
+    headers.set("RateLimit-Reset", String(Math.ceil(result.reset / 1000)));
+    headers.set("RateLimit-Policy", `${limit};w=${Math.ceil(window / 1000)}`);
+  }
+
+  /**
+   * Creates a 429 response for a throttled request.
+   */
+  function createTooManyRequests(
+    request: Request,
+    result: RateLimitResult & { key: string }
+  ): Response {
+    const path = new URL(request.url).pathname;
+    log(`Rate limited ${result.key}: ${path}`);
+    emitEvent(request, {
+      type: "RATE_LIMITED",
+      path,
+      key: result.key,
+      retryAfter: result.retryAfter,
+    });
+
+    const headers = createHeaders("application/json");
+    headers.set("Cache-Control", "no-store");
+    headers.set("Retry-After", String(Math.ceil(result.retryAfter / 1000)));
+    return new Response(JSON.stringify({ error: "Too many requests" }), {
+      status: 429,
+      headers,
+    });
+  }
+
+  /**
+   * Creates a 200 response carrying validators and a content digest,
+   * or a 304 response when the request's conditional headers match.
+   */
+  function createCacheableResponse(
+    request: Request,
+    body: SkillFileData | null,
+    contentType: string,
+    representation: Representation
+  ): Response {
+    const { etag, lastModified, digest, size } = representation;
+    if (etag && isNotModified(request, etag, lastModified)) {
+      discardBody(body);
+      return createNotModified(etag, lastModified);
+    }
+
+    const headers = createHeaders(contentType);
+    setValidators(headers, etag, lastModified);
+
+    const contentDigest = digest && toContentDigest(digest);
+    if (contentDigest) {
+      headers.set("Content-Digest", contentDigest);
+      // Legacy RFC 3230 form for older clients
+      headers.set(
+        "Digest",
+        contentDigest.replace(/^sha-256=:(.*):$/, "sha-256=$1")
+      );
+    }
+
+    if (size !== undefined) {
+      headers.set("Content-Length", String(size));
+    }
+
+    // HEAD responses carry the same headers without a body
+    if (isHead(request)) {
+      discardBody(body);
+    }
+    const responseBody = isHead(request) ? null : body;
+    return new Response(responseBody as BodyInit | null, {
+      status: 200,
+      headers,
+    });
+  }
+
+  // Validation results for provider skills, so each is checked only once
+  const validatedSkills = new WeakMap<Skill, boolean>();
+
+  /**
+   * Returns the provider's skills, leaving out any that fail validation so
+   * a custom provider can't publish a skill that `validate` would reject.
+   */
+  async function getValidSkills(): Promise<Skill[]> {
+    const skills = await provider.getSkills();
+    return skills.filter(isValidSkill);
+  }
+
+  /**
+   * Validates a provider skill once, warning when it's invalid.
+   */
+  function isValidSkill(skill: Skill): boolean {
+    let valid = validatedSkills.get(skill);
+    if (valid === undefined) {
+      const result = validateSkill(skill);
+      valid = result.valid;
+      validatedSkills.set(skill, valid);
+
+      if (!valid) {
+        const error = result.diagnostics.find((d) => d.severity === "error");
+        console.warn(
+          `[skills-handler] Skipping invalid skill ${skill.name}: ${error?.message}`
+        );
+      }
+    }
+    return valid;
+  }
+
+  /**
+   * Finds a skill by name, at a specific version when one is given.
+   * Returns the version to read files with: undefined for the latest
+   * revision, which is also served when the requested version is latest.
+   */
+  async function resolveSkill(
+    skillName: string,
+    version?: string
+  ): Promise<{ skill: Skill; version?: string } | null> {
+    const latest = (await getValidSkills()).find((s) => s.name === skillName);
+    if (!latest) return null;
+    if (version === undefined || latest.version === version) {
+      return { skill: latest };
+    }
+
+    const skill = await provider.getSkillVersion?.(skillName, version);
+    if (!skill || skill.name !== skillName || !isValidSkill(skill)) {
+      return null;
+    }
+
+    // Earlier versions of a private skill stay private
+    return {
+      skill:
+        latest.visibility === "private"
+          ? { ...skill, visibility: "private" }
+          : skill,
+      version,
+    };
+  }
+
+  // Requests whose responses depend on the caller, sent as private
+  const callerSpecificRequests = new WeakSet<Request>();
+  // Authentication results, so the caller is authenticated once per request
+  const authentications = new WeakMap<Request, Promise<SkillAuthorization>>();
+
+  /**
+   * Checks whether a request may access a skill. Public skills are always
+   * accessible; private skills need `authorize` to accept the caller and
+   * then the skill.
+   */
+  async function checkAccess(
+    request: Request,
+    skill: Skill
+  ): Promise<SkillAuthorization> {
+    if (skill.visibility !== "private") return true;
+
+    callerSpecificRequests.add(request);
+    if (!authorize) return false;
+
+    let authentication = authentications.get(request);
+    if (!authentication) {
+      authentication = Promise.resolve(authorize(request));
+      authentications.set(request, authentication);
+    }
+
+    const caller = await authentication;
+    if (caller !== true) return caller;
+    return authorize(request, skill);
+  }
+
+  /**
+   * Returns the valid skills a request may access.
+   */
+  async function getVisibleSkills(request: Request): Promise<Skill[]> {
+    const skills = await getValidSkills();
+    const access = await Promise.all(
+      skills.map((skill) => checkAccess(request, skill))
+    );
+    return skills.filter((_, i) => access[i] === true);
+  }
+
+  /**
+   * Creates the response for a private skill the caller can't access:
+   * a 404 like any unknown skill, or 401/403 when names may be revealed.
+   */
+  function createAccessDenied(
+    request: Request,
+    access: SkillAuthorization,
+    requestPath: string,
+    skillName: string,
+    filePath?: string
+  ): Response {
+    const status = hidePrivateSkills
+      ? 404
+      : access === "unauthenticated"
+        ? 401
+        : 403;
+
+    log(`Access denied (${status}): ${skillName}`);
+    emitEvent(request, {
+      type: "ACCESS_DENIED",
+      path: requestPath,
+      skillName,
+      ...(filePath && { filePath }),
+      status,
+    });
+
+    const headers = createHeaders("application/json");
+    if (status === 401) {
+      headers.set("WWW-Authenticate", wwwAuthenticate);
+    }
 
-    return headers;
+    const error = {
+      401: "Authentication required",
+      403: "Forbidden",
+      404: filePath ? "File not found" : "Skill not found",
+    }[status];
+    return new Response(JSON.stringify({ error }), { status, headers });
+  }
+
+  /**
+   * Loads the SKILL.md to serve for a skill: the provider's original file
+   * when enabled and available, otherwise a reconstruction.
+   */
+  async function loadSkillMd(
+    skill: Skill,
+    version?: string
+  ): Promise<{ file: SkillFile; original: boolean }> {
+    const original = serveOriginalSkillMd
+      ? await provider.getSkillFile(skill.name, "SKILL.md", version)
+      : null;
+
+    if (original !== null) {
+      return { file: toSkillFile(original), original: true };
+    }
+    return { file: { data: reconstructSkillMd(skill) }, original: false };
+  }
+
+  /**
+   * Yields every file of a skill for an archive, with the served SKILL.md
+   * first followed by the provider's supporting files.
+   */
+  async function* readArchiveEntries(
+    skill: Skill,
+    version?: string
+  ): AsyncGenerator<SkillArchiveEntry> {
+    const { file } = await loadSkillMd(skill, version);
+    yield {
+      path: "SKILL.md",
+      data: await readAllBytes(file.data),
+      lastModified: skill.lastModified,
+    };
+
+    if (provider.getSkillArchiveEntries) {
+      for await (const entry of provider.getSkillArchiveEntries(
+        skill.name,
+        version
+      )) {
+        if (entry.path !== "SKILL.md") {
+          yield entry;
+        }
+      }
+      return;
+    }
+
+    for (const filePath of skill.files) {
+      if (filePath === "SKILL.md") continue;
+
+      const content = await provider.getSkillFile(skill.name, filePath, version);
+      if (content === null) {
+        log(`Skipping missing file in archive: ${skill.name}/${filePath}`);
+        continue;
+      }
+
+      yield {
+        path: filePath,
+        data: await readAllBytes(toSkillFile(content).data),
+      };
+    }
+  }
+
+  /**
+   * Builds a discovery index entry for a skill.
+   */
+  async function createIndexEntry(skill: Skill): Promise<SkillIndexEntry> {
+    const entry: SkillIndexEntry = {
+      name: skill.name,
+      description: skill.description,
+      files: skill.files,
+    };
+
+    if (skill.digests) {
+      const digests: Record<string, string> = {};
+      for (const filePath of skill.files) {
+        const digest = skill.digests[filePath];
+        if (digest) digests[filePath] = digest;
+      }
+
+      // A reconstructed SKILL.md differs from the provider's file, so
+      // digest what is actually served
+      if (!serveOriginalSkillMd && skill.files.includes("SKILL.md")) {
+        digests["SKILL.md"] = await sha256Digest(reconstructSkillMd(skill));
+      }
+
+      entry.digests = digests;
+      if (skill.files.every((filePath) => filePath in digests)) {
+        entry.digest = await skillDigest(digests);
+      }
+    }
+
+    if (archives) {
+      entry.archive = `${skill.name}.tar.gz`;
+    }
+
+    if (skill.version !== undefined) {
+      entry.version = skill.version;
+    }
+    if (skill.versions?.length) {
+      entry.versions = skill.versions;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Creates a 304 Not Modified response.
+   */
+  function createNotModified(etag: string, lastModified?: Date): Response {
+    const headers = createHeaders("text/plain");
+    headers.delete("Content-Type");
+    setValidators(headers, etag, lastModified);
+    return new Response(null, { status: 304, headers });
   }
 
   /**
    * Handles OPTIONS requests for CORS preflight.
    */
-  function handleOptions(): Response {
+  function handleOptions(request: Request): Response {
     const headers = createHeaders("text/plain");
     headers.set("Content-Length", "0");
+
+    // Allow whichever headers the preflight asks for, e.g. If-None-Match
+    const requestedHeaders = request.headers.get(
+      "Access-Control-Request-Headers"
+    );
+    if (requestedHeaders) {
+      headers.set("Access-Control-Allow-Headers", requestedHeaders);
+      headers.append("Vary", "Access-Control-Request-Headers");
+    }
+    headers.set("Access-Control-Max-Age", String(corsMaxAge));
+
     return new Response(null, { status: 204, headers });
   }
 
   /**
    * Serves the skills index.
    */
-  async function serveIndex(requestPath: string): Promise<Response> {
+  async function serveIndex(
+    request: Request,
+    requestPath: string
+  ): Promise<Response> {
     try {
-      const skills = await provider.getSkills();
+      const skills = await getVisibleSkills(request);
 
       const index: SkillIndex = {
-        skills: skills.map((skill) => ({
-          name: skill.name,
-          description: skill.description,
-          files: skill.files,
-        })),
+        skills: await Promise.all(skills.map(createIndexEntry)),
       };
 
       log(`Serving index with ${skills.length} skills`);
 
-      emitEvent({
+      emitEvent(request, {
         type: "INDEX_REQUESTED",
         path: requestPath,
         skillCount: skills.length,
       });
 
-      return new Response(JSON.stringify(index, null, 2), {
-        status: 200,
-        headers: createHeaders("application/json"),
-      });
+      const body = JSON.stringify(index, null, 2);
+
+      // Only advertise Last-Modified when every skill reports one
+      const lastModified = skills.every((skill) => skill.lastModified)
+        ? latestDate(skills.map((skill) => skill.lastModified!))
+        : undefined;
+
+      return createCacheableResponse(
+        request,
+        body,
+        "application/json",
+        await describeRepresentation(body, { lastModified })
+      );
     } catch (error) {
       log("Error serving index:", error);
-      emitEvent({
+      emitEvent(request, {
         type: "ERROR",
         path: requestPath,
         error: error instanceof Error ? error : new Error(String(error)),
@@ -135,39 +745,57 @@ export function createSkillsHandler(
    * Serves a skill's SKILL.md file.
    */
   async function serveSkillMd(
+    request: Request,
     skillName: string,
-    requestPath: string
+    requestPath: string,
+    version?: string
   ): Promise<Response> {
     try {
-      const skills = await provider.getSkills();
-      const skill = skills.find((s) => s.name === skillName);
+      const resolved = await resolveSkill(skillName, version);
 
-      if (!skill) {
-        log(`Skill not found: ${skillName}`);
-        emitEvent({ type: "NOT_FOUND", path: requestPath, skillName });
+      if (!resolved) {
+        log(`Skill not found: ${formatSkillId(skillName, version)}`);
+        emitEvent(request, { type: "NOT_FOUND", path: requestPath, skillName });
         return new Response(
           JSON.stringify({ error: "Skill not found" }),
           { status: 404, headers: createHeaders("application/json") }
         );
       }
 
-      // Reconstruct the SKILL.md file
-      const content = reconstructSkillMd(skill);
+      const { skill } = resolved;
+      const access = await checkAccess(request, skill);
+      if (access !== true) {
+        return createAccessDenied(request, access, requestPath, skillName);
+      }
+
+      const { file, original } = await loadSkillMd(skill, resolved.version);
 
-      log(`Serving SKILL.md for: ${skillName}`);
-      emitEvent({
+      const source = original ? "original" : "reconstructed";
+      log(
+        `Serving ${source} SKILL.md for: ${formatSkillId(skillName, version)}`
+      );
+      emitEvent(request, {
         type: "SKILL_REQUESTED",
         path: requestPath,
         skillName,
+        ...(version && { version }),
       });
 
-      return new Response(content, {
-        status: 200,
-        headers: createHeaders("text/markdown; charset=utf-8"),
-      });
+      // The provider's etag describes its file, so a reconstructed
+      // SKILL.md is validated by a hash of what is actually served
+      return createCacheableResponse(
+        request,
+        file.data,
+        "text/markdown; charset=utf-8",
+        await describeRepresentation(file.data, {
+          version: original ? skill.etag : undefined,
+          lastModified: skill.lastModified,
+          digest: original ? skill.digests?.["SKILL.md"] : undefined,
+        })
+      );
     } catch (error) {
       log(`Error serving SKILL.md for ${skillName}:`, error);
-      emitEvent({
+      emitEvent(request, {
         type: "ERROR",
         path: requestPath,
         error: error instanceof Error ? error : new Error(String(error)),
@@ -184,45 +812,112 @@ export function createSkillsHandler(
    * Serves a skill's supporting file.
    */
   async function serveSkillFile(
+    request: Request,
     skillName: string,
     filePath: string,
-    requestPath: string
+    requestPath: string,
+    requestedVersion?: string
   ): Promise<Response> {
     try {
-      const content = await provider.getSkillFile(skillName, filePath);
+      // Files are only read for listed, valid skills the caller may access
+      const resolved = await resolveSkill(skillName, requestedVersion);
+      if (!resolved) {
+        return createFileNotFound(request, requestPath, skillName, filePath);
+      }
 
-      if (content === null) {
-        log(`File not found: ${skillName}/${filePath}`);
-        emitEvent({
-          type: "NOT_FOUND",
+      const { skill, version } = resolved;
+      const access = await checkAccess(request, skill);
+      if (access !== true) {
+        return createAccessDenied(
+          request,
+          access,
+          requestPath,
+          skillName,
+          filePath
+        );
+      }
+
+      // Answer conditional requests from the provider's validators when
+      // available, without reading the file
+      const stat = provider.getSkillFileStat
+        ? await provider.getSkillFileStat(skillName, filePath, version)
+        : undefined;
+
+      if (
+        stat?.etag &&
+        isNotModified(request, formatEtag(stat.etag), stat.lastModified)
+      ) {
+        log(`File not modified: ${skillName}/${filePath}`);
+        emitEvent(request, {
+          type: "FILE_REQUESTED",
           path: requestPath,
           skillName,
           filePath,
+          ...(requestedVersion && { version: requestedVersion }),
         });
-        return new Response(
-          JSON.stringify({ error: "File not found" }),
-          { status: 404, headers: createHeaders("application/json") }
+        return createNotModified(formatEtag(stat.etag), stat.lastModified);
+      }
+
+      // HEAD can be answered from the provider's stat when it reports a
+      // size, without reading the file
+      if (stat?.size !== undefined && isHead(request)) {
+        log(`Serving file headers: ${skillName}/${filePath}`);
+        emitEvent(request, {
+          type: "FILE_REQUESTED",
+          path: requestPath,
+          skillName,
+          filePath,
+          ...(requestedVersion && { version: requestedVersion }),
+        });
+        return createCacheableResponse(
+          request,
+          null,
+          stat.contentType ?? getContentType(filePath),
+          {
+            etag: stat.etag === undefined ? undefined : formatEtag(stat.etag),
+            lastModified: stat.lastModified,
+            digest: stat.digest,
+            size: stat.size,
+          }
         );
       }
 
-      log(`Serving file: ${skillName}/${filePath}`);
-      emitEvent({
+      const content =
+        stat === null
+          ? null
+          : await provider.getSkillFile(skillName, filePath, version);
+
+      if (content === null) {
+        return createFileNotFound(request, requestPath, skillName, filePath);
+      }
+
+      log(`Serving file: ${formatSkillId(skillName, requestedVersion)}/${filePath}`);
+      emitEvent(request, {
         type: "FILE_REQUESTED",
         path: requestPath,
         skillName,
         filePath,
+        ...(requestedVersion && { version: requestedVersion }),
       });
 
-      // Determine content type based on file extension
-      const contentType = getContentType(filePath);
+      const file = toSkillFile(content);
 
-      return new Response(content, {
-        status: 200,
-        headers: createHeaders(contentType),
-      });
+      // Determine content type based on file extension unless provided
+      const contentType = file.contentType ?? getContentType(filePath);
+
+      return createCacheableResponse(
+        request,
+        file.data,
+        contentType,
+        await describeRepresentation(file.data, {
+          version: stat?.etag,
+          lastModified: stat?.lastModified,
+          digest: stat?.digest,
+        })
+      );
     } catch (error) {
       log(`Error serving file ${skillName}/${filePath}:`, error);
-      emitEvent({
+      emitEvent(request, {
         type: "ERROR",
         path: requestPath,
         error: error instanceof Error ? error : new Error(String(error)),
@@ -235,12 +930,158 @@ export function createSkillsHandler(
     }
   }
 
+  /**
+   * Creates the 404 response for a missing skill file.
+   */
+  function createFileNotFound(
+    request: Request,
+    requestPath: string,
+    skillName: string,
+    filePath: string
+  ): Response {
+    log(`File not found: ${skillName}/${filePath}`);
+    emitEvent(request, {
+      type: "NOT_FOUND",
+      path: requestPath,
+      skillName,
+      filePath,
+    });
+    return new Response(
+      JSON.stringify({ error: "File not found" }),
+      { status: 404, headers: createHeaders("application/json") }
+    );
+  }
+
+  /**
+   * Serves a gzip-compressed tar archive of a whole skill.
+   */
+  async function serveArchive(
+    request: Request,
+    skillName: string,
+    requestPath: string,
+    version?: string
+  ): Promise<Response> {
+    try {
+      const resolved = await resolveSkill(skillName, version);
+
+      if (!resolved) {
+        log(`Skill not found: ${formatSkillId(skillName, version)}`);
+        emitEvent(request, { type: "NOT_FOUND", path: requestPath, skillName });
+        return new Response(
+          JSON.stringify({ error: "Skill not found" }),
+          { status: 404, headers: createHeaders("application/json") }
+        );
+      }
+
+      const { skill } = resolved;
+      const access = await checkAccess(request, skill);
+      if (access !== true) {
+        return createAccessDenied(request, access, requestPath, skillName);
+      }
+
+      log(`Serving archive for: ${formatSkillId(skillName, version)}`);
+      emitEvent(request, {
+        type: "ARCHIVE_REQUESTED",
+        path: requestPath,
+        skillName,
+        ...(version && { version }),
+      });
+
+      // The skill digest covers every file, so it identifies the archive
+      // contents without generating it. The ETag is weak since compressed
+      // bytes and tar metadata may vary for the same files.
+      const { digest } = await createIndexEntry(skill);
+
+      // Streams start reading as soon as they are created, so don't build
+      // the archive for HEAD requests
+      const response = createCacheableResponse(
+        request,
+        isHead(request)
+          ? null
+          : createTarGzStream(readArchiveEntries(skill, resolved.version)),
+        "application/gzip",
+        {
+          etag: digest && `W/${formatEtag(digest)}`,
+          lastModified: skill.lastModified,
+        }
+      );
+      if (response.status === 200) {
+        response.headers.set(
+          "Content-Disposition",
+          `attachment; filename="${formatSkillId(skillName, version)}.tar.gz"`
+        );
+      }
+      return response;
+    } catch (error) {
+      log(`Error serving archive for ${skillName}:`, error);
+      emitEvent(request, {
+        type: "ERROR",
+        path: requestPath,
+        error: error instanceof Error ? error : new Error(String(error)),
+        context: { skillName },
+      });
+      return new Response(
+        JSON.stringify({ error: "Internal server error" }),
+        { status: 500, headers: createHeaders("application/json") }
+      );
+    }
+  }
+
+  /**
+   * Serves the analytics snapshot to requests bearing the stats secret.
+   */
+  function serveStats(request: Request): Response {
+    statsRequests.add(request);
+
+    const headers = createHeaders("application/json");
+    headers.set("Cache-Control", "no-store");
+
+    const authorization = request.headers.get("Authorization") ?? "";
+    const token = authorization.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+    if (!analytics || !statsSecret || !timingSafeEqual(token, statsSecret)) {
+      headers.set("WWW-Authenticate", "Bearer");
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers,
+      });
+    }
+
+    return new Response(JSON.stringify(analytics.snapshot()), { headers });
+  }
+
+  /**
+   * Creates a 400 response for a malformed skill name, version or path.
+   */
+  function createInvalidRequest(
+    request: Request,
+    requestPath: string,
+    error: string,
+    target: { skillName?: string; filePath?: string }
+  ): Response {
+    emitEvent(request, {
+      type: "INVALID_REQUEST",
+      path: requestPath,
+      status: 400,
+      error,
+      ...target,
+    });
+    return new Response(JSON.stringify({ error }), {
+      status: 400,
+      headers: createHeaders("application/json"),
+    });
+  }
+
   /**
    * Creates a redirect response using the request's origin.
    */
   function createRedirect(request: Request, path: string): Response {
     const url = new URL(request.url);
     const redirectUrl = new URL(path, url.origin);
+    emitEvent(request, {
+      type: "REDIRECTED",
+      path: url.pathname,
+      location: redirectUrl.toString(),
+    });
     return new Response(null, {
       status: 302,
       headers: {
@@ -250,9 +1091,9 @@ export function createSkillsHandler(
   }
 
   /**
-   * Main handler function.
+   * Routes a request to the matching endpoint.
    */
-  return async function handler(request: Request): Promise<Response> {
+  async function routeRequest(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const fullPath = url.pathname;
     const method = request.method.toUpperCase();
@@ -261,11 +1102,17 @@ export function createSkillsHandler(
 
     // Handle OPTIONS for CORS
     if (method === "OPTIONS") {
-      return handleOptions();
+      return handleOptions(request);
     }
 
     // Only allow GET and HEAD
     if (method !== "GET" && method !== "HEAD") {
+      emitEvent(request, {
+        type: "INVALID_REQUEST",
+        path: fullPath,
+        status: 405,
+        error: "Method not allowed",
+      });
       return new Response(
         JSON.stringify({ error: "Method not allowed" }),
         { status: 405, headers: createHeaders("application/json") }
@@ -299,6 +1146,11 @@ export function createSkillsHandler(
 
     log(`Routing relative path: ${relativePath}`);
 
+    // Route: /_stats.json (analytics snapshot)
+    if (relativePath === "/_stats.json" && analytics && statsSecret) {
+      return serveStats(request);
+    }
+
     // Route: / or empty (root - redirect to index.json)
     if (relativePath === "/" || relativePath === "") {
       return createRedirect(request, `${normalizedBasePath}/index.json`);
@@ -306,79 +1158,366 @@ export function createSkillsHandler(
 
     // Route: /index.json
     if (relativePath === "/index.json") {
-      return serveIndex(fullPath);
+      return serveIndex(request, fullPath);
     }
 
-    // Route: /{skill-name}/SKILL.md
+    // Route: /{skill-name}/SKILL.md, optionally /{skill-name}@{version}/...
     const skillMdMatch = relativePath.match(/^\/([^/]+)\/SKILL\.md$/);
     if (skillMdMatch) {
-      const skillName = skillMdMatch[1];
-      if (skillName && isValidSkillName(skillName)) {
-        return serveSkillMd(skillName, fullPath);
-      } else {
-        emitEvent({ type: "NOT_FOUND", path: fullPath, skillName });
-        return new Response(
-          JSON.stringify({ error: "Invalid skill name" }),
-          { status: 400, headers: createHeaders("application/json") }
-        );
+      const segment = parseSkillSegment(skillMdMatch[1]!);
+      if (segment.error) {
+        return createInvalidRequest(request, fullPath, segment.error, {
+          skillName: segment.skillName,
+        });
       }
+      return serveSkillMd(
+        request,
+        segment.skillName,
+        fullPath,
+        segment.version
+      );
     }
 
     // Route: /{skill-name}/{file-path} (other files)
     const skillFileMatch = relativePath.match(/^\/([^/]+)\/(.+)$/);
     if (skillFileMatch) {
-      const [, skillName, filePath] = skillFileMatch;
-      if (skillName && filePath) {
-        if (!isValidSkillName(skillName)) {
-          emitEvent({ type: "NOT_FOUND", path: fullPath, skillName });
-          return new Response(
-            JSON.stringify({ error: "Invalid skill name" }),
-            { status: 400, headers: createHeaders("application/json") }
-          );
+      const [, rawSegment, filePath] = skillFileMatch;
+      if (rawSegment && filePath) {
+        const segment = parseSkillSegment(rawSegment);
+        if (segment.error) {
+          return createInvalidRequest(request, fullPath, segment.error, {
+            skillName: segment.skillName,
+          });
         }
         if (!isValidFilePath(filePath)) {
-          emitEvent({ type: "NOT_FOUND", path: fullPath, skillName, filePath });
-          return new Response(
-            JSON.stringify({ error: "Invalid file path" }),
-            { status: 400, headers: createHeaders("application/json") }
+          return createInvalidRequest(request, fullPath, "Invalid file path", {
+            skillName: segment.skillName,
+            filePath,
+          });
+        }
+        return serveSkillFile(
+          request,
+          segment.skillName,
+          filePath,
+          fullPath,
+          segment.version
+        );
+      }
+    }
+
+    // Route: /{skill-name}.tar.gz (whole-skill archive)
+    if (archives) {
+      const archiveMatch = relativePath.match(/^\/([^/]+)\.tar\.gz$/);
+      if (archiveMatch) {
+        const segment = parseSkillSegment(archiveMatch[1]!);
+        if (!segment.error) {
+          return serveArchive(
+            request,
+            segment.skillName,
+            fullPath,
+            segment.version
           );
         }
-        return serveSkillFile(skillName, filePath, fullPath);
       }
     }
 
     // Route: /{skill-name} (redirect to SKILL.md)
     const skillDirMatch = relativePath.match(/^\/([^/]+)$/);
     if (skillDirMatch) {
-      const skillName = skillDirMatch[1];
-      if (skillName && isValidSkillName(skillName)) {
+      const segment = parseSkillSegment(skillDirMatch[1]!);
+      if (!segment.error) {
         return createRedirect(
           request,
-          `${normalizedBasePath}/${skillName}/SKILL.md`
+          `${normalizedBasePath}/${formatSkillId(segment.skillName, segment.version)}/SKILL.md`
         );
       }
     }
 
     // Not found
     log(`Path not found: ${fullPath}`);
-    emitEvent({ type: "NOT_FOUND", path: fullPath });
+    emitEvent(request, { type: "NOT_FOUND", path: fullPath });
     return new Response(
       JSON.stringify({ error: "Not found" }),
       { status: 404, headers: createHeaders("application/json") }
     );
+  }
+
+  /**
+   * Main handler function.
+   */
+  return async function handler(request: Request): Promise<Response> {
+    const startTime = Date.now();
+
+    // Preflights aren't counted, so throttled clients still see CORS errors
+    // as 429s rather than opaque failures
+    const rateLimitResult =
+      request.method.toUpperCase() === "OPTIONS"
+        ? null
+        : await checkRateLimit(request);
+
+    let response =
+      rateLimitResult && !rateLimitResult.allowed
+        ? createTooManyRequests(request, rateLimitResult)
+        : await routeRequest(request);
+
+    if (rateLimitResult) {
+      setRateLimitHeaders(response.headers, rateLimitResult);
+    }
+
+    // Strip bodies from HEAD responses such as errors and redirects
+    if (isHead(request) && response.body !== null) {
+      response = new Response(null, {
+        status: response.status,
+        headers: response.headers,
+      });
+    }
+
+    // Shared caches must not serve responses that depend on the caller
+    const cacheHeader = response.headers.get("Cache-Control");
+    if (callerSpecificRequests.has(request) && cacheHeader) {
+      response.headers.set("Cache-Control", toPrivateCacheControl(cacheHeader));
+    }
+
+    applyCorsHeaders(request, response.headers);
+    return onEvent || analytics
+      ? trackCompletion(request, response, startTime)
+      : response;
   };
 }
 
 /**
  * Reconstructs a SKILL.md file from a Skill object.
+ * The frontmatter is emitted through a YAML serializer so that values
+ * containing colons, quotes, comment markers or newlines stay intact.
+ * Scalars are quoted by YAML 1.1 rules, which gray-matter and js-yaml
+ * follow, so strings like `2024-06-01` or `1_000` aren't read back as
+ * dates or numbers.
  */
 function reconstructSkillMd(skill: Skill): string {
-  const frontmatter = `---
-name: ${skill.name}
-description: ${skill.description}
----`;
+  // Extras are top-level fields in SKILL.md, after the specification's
+  const { extras, ...frontmatter } = pickSkillFrontmatter(skill);
+  const yaml = stringifyYaml({ ...frontmatter, ...extras }, {
+    lineWidth: 0,
+    version: "1.1",
+  });
+
+  return `---\n${yaml}---\n\n${skill.body}`;
+}
+
+/**
+ * Returns whether a request only asks for headers.
+ */
+function isHead(request: Request): boolean {
+  return request.method.toUpperCase() === "HEAD";
+}
+
+/**
+ * Formats a version identifier as a strong entity tag.
+ */
+function formatEtag(version: string): string {
+  return `"${version}"`;
+}
 
-  return `${frontmatter}\n\n${skill.body}`;
+/**
+ * Sets the ETag and Last-Modified headers on a response.
+ */
+function setValidators(
+  headers: Headers,
+  etag: string | undefined,
+  lastModified?: Date
+): void {
+  if (etag) {
+    headers.set("ETag", etag);
+  }
+  if (lastModified) {
+    headers.set("Last-Modified", lastModified.toUTCString());
+  }
+}
+
+/**
+ * Fills in the ETag and digest for a response body, hashing the body only
+ * when the provider didn't supply them. Streams can't be hashed without
+ * consuming them, so they only carry provider-supplied values.
+ */
+async function describeRepresentation(
+  data: SkillFileData,
+  known: { version?: string; lastModified?: Date; digest?: string }
+): Promise<Representation> {
+  let { version, digest } = known;
+  let size: number | undefined;
+
+  if (!(data instanceof ReadableStream)) {
+    const bytes =
+      typeof data === "string" ? new TextEncoder().encode(data) : data;
+    size = bytes.length;
+
+    if (version === undefined || digest === undefined) {
+      const hash = await sha256Hex(bytes);
+      version ??= hash;
+      digest ??= `sha256:${hash}`;
+    }
+  }
+
+  return {
+    etag: version === undefined ? undefined : formatEtag(version),
+    lastModified: known.lastModified,
+    digest,
+    size,
+  };
+}
+
+/**
+ * Cancels a stream that won't be sent, so the provider can release the
+ * file or connection behind it.
+ */
+function discardBody(body: SkillFileData | null): void {
+  if (body instanceof ReadableStream) {
+    body.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Normalizes provider file content into a file descriptor.
+ */
+function toSkillFile(content: SkillFileContent): SkillFile {
+  if (
+    typeof content === "string" ||
+    content instanceof Uint8Array ||
+    content instanceof ReadableStream
+  ) {
+    return { data: content };
+  }
+  return content;
+}
+
+/**
+ * Returns the most recent of a list of dates.
+ */
+function latestDate(dates: Date[]): Date | undefined {
+  let latest: Date | undefined;
+  for (const date of dates) {
+    if (!latest || date.getTime() > latest.getTime()) {
+      latest = date;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Splits a `{name}` or `{name}@{version}` path segment, reporting an error
+ * when either part is invalid.
+ */
+function parseSkillSegment(segment: string): {
+  skillName: string;
+  version?: string;
+  error?: string;
+} {
+  // Clients may percent-encode the separator
+  const decoded = segment.replace(/%40/gi, "@");
+  const at = decoded.indexOf("@");
+  if (at === -1) {
+    return isValidSkillName(decoded)
+      ? { skillName: decoded }
+      : { skillName: decoded, error: "Invalid skill name" };
+  }
+
+  const skillName = decoded.slice(0, at);
+  const version = decoded.slice(at + 1);
+  if (!isValidSkillName(skillName)) {
+    return { skillName, error: "Invalid skill name" };
+  }
+  if (!isValidSkillVersion(version)) {
+    return { skillName, error: "Invalid skill version" };
+  }
+  return { skillName, version };
+}
+
+/**
+ * Formats a skill name with its version, as used in versioned URLs.
+ */
+function formatSkillId(skillName: string, version?: string): string {
+  return version === undefined ? skillName : `${skillName}@${version}`;
+}
+
+/**
+ * Compares two strings in time that depends only on their lengths, so a
+ * secret can't be guessed character by character.
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let difference = left.length ^ right.length;
+  for (let i = 0; i < right.length; i++) {
+    difference |= (left[i % Math.max(left.length, 1)] ?? 0) ^ right[i]!;
+  }
+  return difference === 0;
+}
+
+/**
+ * Restricts a Cache-Control value to private caches, dropping directives
+ * that only apply to shared caches.
+ */
+function toPrivateCacheControl(value: string): string {
+  const directives = value
+    .split(",")
+    .map((directive) => directive.trim())
+    .filter(
+      (directive) =>
+        directive !== "" &&
+        !/^(public|s-maxage=.*|proxy-revalidate)$/i.test(directive)
+    );
+
+  if (!directives.some((d) => /^(private|no-store)$/i.test(d))) {
+    directives.unshift("private");
+  }
+  return directives.join(", ");
+}
+
+/**
+ * Matches a request origin against an allowed origin. A `*` in the pattern
+ * matches one or more subdomain labels, e.g. `https://*.example.com`.
+ */
+function matchesOrigin(origin: string, pattern: string): boolean {
+  if (!pattern.includes("*")) {
+    return origin.toLowerCase() === pattern.toLowerCase();
+  }
+
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[a-z0-9-]+(?:\\.[a-z0-9-]+)*");
+  return new RegExp(`^${source}$`, "i").test(origin);
+}
+
+/**
+ * Evaluates If-None-Match and If-Modified-Since against a representation.
+ * If-None-Match takes precedence when present (RFC 9110, section 13.2.2).
+ */
+function isNotModified(
+  request: Request,
+  etag: string,
+  lastModified?: Date
+): boolean {
+  const ifNoneMatch = request.headers.get("If-None-Match");
+  if (ifNoneMatch !== null) {
+    if (ifNoneMatch.trim() === "*") return true;
+    // Weak comparison: W/"x" matches "x"
+    const current = etag.replace(/^W\//, "");
+    return ifNoneMatch
+      .split(",")
+      .some((tag) => tag.trim().replace(/^W\//, "") === current);
+  }
+
+  const ifModifiedSince = request.headers.get("If-Modified-Since");
+  if (ifModifiedSince && lastModified) {
+    const since = Date.parse(ifModifiedSince);
+    if (Number.isNaN(since)) return false;
+    // HTTP dates have second precision
+    return Math.floor(lastModified.getTime() / 1000) * 1000 <= since;
+  }
+
+  return false;
 }
 
 /**
@@ -402,9 +1541,42 @@ function getContentType(filePath: string): string {
     html: "text/html; charset=utf-8",
     css: "text/css; charset=utf-8",
     xml: "application/xml",
+    svg: "image/svg+xml",
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    ico: "image/x-icon",
+    pdf: "application/pdf",
+    zip: "application/zip",
+    whl: "application/zip",
+    gz: "application/gzip",
+    tgz: "application/gzip",
+    tar: "application/x-tar",
+    wasm: "application/wasm",
+    woff: "font/woff",
+    woff2: "font/woff2",
   };
 
   return contentTypes[ext ?? ""] ?? "text/plain; charset=utf-8";
 }
 
-export { reconstructSkillMd, getContentType };
+/**
+ * Returns whether a content type describes text that can be decoded as UTF-8.
+ */
+function isTextContentType(contentType: string): boolean {
+  const mimeType = contentType.split(";")[0]!.trim();
+  return (
+    mimeType.startsWith("text/") ||
+    mimeType.endsWith("json") ||
+    mimeType.endsWith("xml")
+  );
+}
+
+export {
+  reconstructSkillMd,
+  getContentType,
+  isTextContentType,
+  toSkillFile,
+};
@@ -35,32 +35,104 @@ export {
   createStaticProvider,
   createFileProvider,
   createCompositeProvider,
+  createRemoteProvider,
 } from "./lib/providers.js";
 
+// Static export
+export { buildStaticSkills } from "./lib/build.js";
+
+// Client
+export { createSkillsClient, SkillsClientError } from "./lib/client.js";
+export { pullSkills } from "./lib/pull.js";
+
+// Node.js
+export { toNodeListener } from "./lib/node.js";
+
+// Telemetry
+export { createOpenTelemetryListener } from "./lib/opentelemetry.js";
+
+// Analytics
+export { createSkillsAnalytics } from "./lib/analytics.js";
+
+// Rate limiting
+export { createMemoryRateLimitStore } from "./lib/rate-limit.js";
+
+// Validation
+export { validateSkill, SkillValidationError } from "./lib/validate.js";
+export type { ValidateSkillOptions } from "./lib/validate.js";
+
 // Types
 export type {
+  FileProviderOptions,
+  FileSkillProvider,
   Skill,
+  SkillAuthorization,
+  SkillChangeEvent,
+  SkillWarning,
+  SkillDiagnostic,
+  SkillDiagnosticCode,
+  SkillValidationResult,
   SkillFrontmatter,
+  SkillArchiveEntry,
+  SkillFile,
+  SkillFileContent,
+  SkillFileData,
+  SkillFileStat,
   SkillIndex,
   SkillIndexEntry,
   SkillProvider,
   SkillsHandler,
   SkillsHandlerConfig,
+  StaticBuildOptions,
+  StaticBuildResult,
+  RemoteProviderOptions,
+  RemoteSkillProvider,
+  SkillUsage,
+  SkillsAnalytics,
+  SkillsAnalyticsBucket,
+  SkillsAnalyticsOptions,
+  SkillsAnalyticsSnapshot,
+  OpenTelemetryAttributes,
+  OpenTelemetryMeter,
+  OpenTelemetryOptions,
+  OpenTelemetryTracer,
+  RateLimitOptions,
+  RateLimitResult,
+  RateLimitStore,
+  PullSkillsOptions,
+  PullSkillsResult,
+  PulledSkill,
+  SkillsLockEntry,
+  SkillsLockfile,
+  SkillsClient,
+  SkillsClientErrorCode,
+  SkillsClientFile,
+  SkillsClientOptions,
+  SkillsClientWarning,
   SkillsEvent,
   SkillsEventType,
   SkillsEventBase,
   IndexRequestedEvent,
   SkillRequestedEvent,
   FileRequestedEvent,
+  ArchiveRequestedEvent,
   NotFoundEvent,
+  AccessDeniedEvent,
+  InvalidRequestEvent,
+  RedirectedEvent,
+  RateLimitedEvent,
+  RequestCompletedEvent,
   ErrorEvent,
 } from "./types.js";
 
 // Validation utilities
 export {
   isValidSkillName,
+  isValidSkillVersion,
   isValidFilePath,
   validateSkillFrontmatter,
   SKILL_NAME_PATTERN,
+  SKILL_VERSION_PATTERN,
   MAX_DESCRIPTION_LENGTH,
+  MAX_COMPATIBILITY_LENGTH,
 } from "./types.js";
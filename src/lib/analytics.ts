@@ -0,0 +1,207 @@
+import type {
+  SkillUsage,
+  SkillsAnalytics,
+  SkillsAnalyticsOptions,
+  SkillsAnalyticsSnapshot,
+} from "../types.js";
+
+const DEFAULT_BUCKET_SIZE = 3600000;
+const DEFAULT_MAX_BUCKETS = 168;
+const DEFAULT_MAX_NOT_FOUND_PATHS = 100;
+
+/**
+ * User agent families recognized by default, checked in order. Agents are
+ * listed before generic HTTP clients and browsers, whose tokens agent user
+ * agents often include.
+ */
+const DEFAULT_AGENT_FAMILIES: { name: string; pattern: RegExp }[] = [
+  { name: "Claude", pattern: /claude|anthropic/i },
+  { name: "Cursor", pattern: /cursor/i },
+  { name: "Codex", pattern: /codex/i },
+  { name: "ChatGPT", pattern: /chatgpt|openai|gptbot/i },
+  { name: "GitHub Copilot", pattern: /copilot/i },
+  { name: "Gemini", pattern: /gemini/i },
+  { name: "Windsurf", pattern: /windsurf|codeium/i },
+  { name: "VS Code", pattern: /vscode/i },
+  { name: "curl", pattern: /^curl\//i },
+  { name: "Python", pattern: /python|aiohttp|httpx/i },
+  { name: "Node.js", pattern: /node|undici/i },
+  { name: "Browser", pattern: /^mozilla\//i },
+];
+
+/**
+ * Creates an in-memory aggregator of handler events, counting requests per
+ * skill, file, user agent family and missing path, and over time.
+ *
+ * Counters are kept per process. Pass it to the handler as `analytics`, or
+ * call `record` from `onEvent` to combine it with other listeners.
+ *
+ * @example
+ * ```typescript
+ * const analytics = createSkillsAnalytics();
+ * const handler = createSkillsHandler(provider, {
+ *   analytics,
+ *   statsSecret: process.env.SKILLS_STATS_SECRET,
+ * });
+ *
+ * console.log(analytics.snapshot().skills);
+ * ```
+ */
+export function createSkillsAnalytics(
+  options: SkillsAnalyticsOptions = {}
+): SkillsAnalytics {
+  const {
+    bucketSize = DEFAULT_BUCKET_SIZE,
+    maxBuckets = DEFAULT_MAX_BUCKETS,
+    maxNotFoundPaths = DEFAULT_MAX_NOT_FOUND_PATHS,
+    agentFamilies = [],
+  } = options;
+  const families = [...agentFamilies, ...DEFAULT_AGENT_FAMILIES];
+
+  let since = Date.now();
+  let totals = { requests: 0, bytes: 0, errors: 0 };
+  let statuses = new Map<number, number>();
+  let skills = new Map<string, SkillUsage>();
+  let agents = new Map<string, number>();
+  let notFound = new Map<string, number>();
+  let buckets = new Map<number, { requests: number; bytes: number; errors: number }>();
+
+  function getSkillUsage(skillName: string): SkillUsage {
+    let usage = skills.get(skillName);
+    if (!usage) {
+      usage = { loads: 0, archives: 0, files: {} };
+      skills.set(skillName, usage);
+    }
+    return usage;
+  }
+
+  /**
+   * Counts a missing path, evicting the least requested one when full.
+   */
+  function countNotFound(path: string): void {
+    const count = notFound.get(path);
+    if (count === undefined && notFound.size >= maxNotFoundPaths) {
+      let leastPath: string | undefined;
+      let leastCount = Infinity;
+      for (const [candidate, candidateCount] of notFound) {
+        if (candidateCount < leastCount) {
+          leastPath = candidate;
+          leastCount = candidateCount;
+        }
+      }
+      if (leastPath !== undefined) notFound.delete(leastPath);
+    }
+    notFound.set(path, (count ?? 0) + 1);
+  }
+
+  /**
+   * Adds a request to its time bucket, dropping buckets that fell out of
+   * the series.
+   */
+  function countInBucket(timestamp: number, bytes: number, error: boolean): void {
+    const start = Math.floor(timestamp / bucketSize) * bucketSize;
+    let bucket = buckets.get(start);
+    if (!bucket) {
+      bucket = { requests: 0, bytes: 0, errors: 0 };
+      buckets.set(start, bucket);
+
+      const oldest = start - (maxBuckets - 1) * bucketSize;
+      for (const key of buckets.keys()) {
+        if (key < oldest) buckets.delete(key);
+      }
+    }
+    bucket.requests++;
+    bucket.bytes += bytes;
+    if (error) bucket.errors++;
+  }
+
+  return {
+    record(event) {
+      // HEAD probes and revalidations don't download anything, so only GET
+      // requests count as usage
+      const isDownload = event.method === "GET";
+
+      switch (event.type) {
+        case "SKILL_REQUESTED":
+          if (!isDownload) break;
+          getSkillUsage(event.skillName).loads++;
+          break;
+        case "ARCHIVE_REQUESTED":
+          if (!isDownload) break;
+          getSkillUsage(event.skillName).archives++;
+          break;
+        case "FILE_REQUESTED": {
+          if (!isDownload) break;
+          const { files } = getSkillUsage(event.skillName);
+          files[event.filePath] = (files[event.filePath] ?? 0) + 1;
+          break;
+        }
+        case "NOT_FOUND":
+          countNotFound(event.path);
+          break;
+        case "REQUEST_COMPLETED": {
+          const error = event.status >= 500;
+          totals.requests++;
+          totals.bytes += event.bytes;
+          if (error) totals.errors++;
+          statuses.set(event.status, (statuses.get(event.status) ?? 0) + 1);
+
+          const family = detectAgentFamily(event.userAgent, families);
+          agents.set(family, (agents.get(family) ?? 0) + 1);
+
+          countInBucket(event.timestamp, event.bytes, error);
+          break;
+        }
+      }
+    },
+
+    snapshot() {
+      return {
+        since: new Date(since).toISOString(),
+        totals: {
+          ...totals,
+          statuses: Object.fromEntries(
+            Array.from(statuses, ([status, count]) => [String(status), count])
+          ),
+        },
+        skills: Object.fromEntries(
+          Array.from(skills, ([name, usage]) => [
+            name,
+            { ...usage, files: { ...usage.files } },
+          ])
+        ),
+        agents: Object.fromEntries(agents),
+        notFound: Array.from(notFound, ([path, count]) => ({ path, count }))
+          .sort((a, b) => b.count - a.count || a.path.localeCompare(b.path)),
+        series: Array.from(buckets)
+          .sort(([a], [b]) => a - b)
+          .map(([start, bucket]) => ({
+            start: new Date(start).toISOString(),
+            ...bucket,
+          })),
+      } satisfies SkillsAnalyticsSnapshot;
+    },
+
+    reset() {
+      since = Date.now();
+      totals = { requests: 0, bytes: 0, errors: 0 };
+      statuses = new Map();
+      skills = new Map();
+      agents = new Map();
+      notFound = new Map();
+      buckets = new Map();
+    },
+  };
+}
+
+/**
+ * Returns the family name of a user agent: the first matching family,
+ * `"Other"` when none match, or `"Unknown"` without a user agent.
+ */
+function detectAgentFamily(
+  userAgent: string | undefined,
+  families: { name: string; pattern: RegExp }[]
+): string {
+  if (!userAgent) return "Unknown";
+  return families.find(({ pattern }) => pattern.test(userAgent))?.name ?? "Other";
+}
@@ -0,0 +1,208 @@
+import type { SkillArchiveEntry, SkillFileData } from "../types.js";
+
+const BLOCK_SIZE = 512;
+const REGULAR_FILE = 0x30; // "0"
+const PAX_HEADER = 0x78; // "x"
+
+/**
+ * Creates a gzip-compressed tar stream from a sequence of entries.
+ * Entries are read lazily, so large skills are never fully buffered.
+ */
+export function createTarGzStream(
+  entries: AsyncIterable<SkillArchiveEntry>
+): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.asyncIterator]();
+
+  const tar = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value: entry, done } = await iterator.next();
+
+      if (done) {
+        // End of archive: two zero-filled blocks
+        controller.enqueue(new Uint8Array(BLOCK_SIZE * 2));
+        controller.close();
+        return;
+      }
+
+      for (const block of createTarHeaders(entry)) {
+        controller.enqueue(block);
+      }
+      controller.enqueue(entry.data);
+
+      const padding = getPadding(entry.data.length);
+      if (padding > 0) {
+        controller.enqueue(new Uint8Array(padding));
+      }
+    },
+
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return tar.pipeThrough(
+    new CompressionStream("gzip") as unknown as ReadableWritablePair<
+      Uint8Array,
+      Uint8Array
+    >
+  );
+}
+
+/**
+ * Reads file content of any supported shape into a byte array.
+ */
+export async function readAllBytes(data: SkillFileData): Promise<Uint8Array> {
+  if (typeof data === "string") {
+    return new TextEncoder().encode(data);
+  }
+  if (data instanceof Uint8Array) {
+    return data;
+  }
+  return new Uint8Array(await new Response(data).arrayBuffer());
+}
+
+/**
+ * Creates the header blocks for a regular file. Paths that are ASCII and
+ * fit the ustar name and prefix fields get a single ustar header; others
+ * are stored as UTF-8 in a preceding PAX extended header, which tar readers
+ * use instead of the ustar fields.
+ */
+function createTarHeaders(entry: SkillArchiveEntry): Uint8Array[] {
+  const mtime = Math.floor((entry.lastModified?.getTime() ?? 0) / 1000);
+  const file = {
+    size: entry.data.length,
+    mode: entry.mode ?? 0o644,
+    mtime,
+    type: REGULAR_FILE,
+  };
+
+  const split = /^[\x20-\x7e]*$/.test(entry.path)
+    ? splitTarPath(entry.path)
+    : null;
+  if (split) {
+    return [createHeaderBlock({ ...split, ...file })];
+  }
+
+  // ASCII stand-in for readers without PAX support, keeping the end of the
+  // path where the file name is
+  const fallback = entry.path.replace(/[^\x20-\x7e]/g, "_").slice(-100);
+  const record = createPaxRecord("path", entry.path);
+  return [
+    createHeaderBlock({
+      prefix: "",
+      name: `PaxHeader/${fallback}`.slice(0, 100),
+      size: record.length,
+      mode: 0o644,
+      mtime,
+      type: PAX_HEADER,
+    }),
+    record,
+    new Uint8Array(getPadding(record.length)),
+    createHeaderBlock({ prefix: "", name: fallback, ...file }),
+  ];
+}
+
+/**
+ * Creates a ustar header block. Names must be ASCII.
+ */
+function createHeaderBlock(fields: {
+  prefix: string;
+  name: string;
+  size: number;
+  mode: number;
+  mtime: number;
+  type: number;
+}): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+
+  writeString(header, 0, 100, fields.name);
+  writeOctal(header, 100, 8, fields.mode);
+  writeOctal(header, 108, 8, 0); // uid
+  writeOctal(header, 116, 8, 0); // gid
+  writeOctal(header, 124, 12, fields.size);
+  writeOctal(header, 136, 12, fields.mtime);
+  header[156] = fields.type;
+  writeString(header, 257, 6, "ustar");
+  writeString(header, 263, 2, "00");
+  writeString(header, 345, 155, fields.prefix);
+
+  // The checksum is computed with the checksum field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, 148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+
+  return header;
+}
+
+/**
+ * Encodes a PAX extended header record, `"<length> <key>=<value>\n"`,
+ * whose length counts the record's own digits.
+ */
+function createPaxRecord(key: string, value: string): Uint8Array {
+  const body = new TextEncoder().encode(` ${key}=${value}\n`);
+  let length = body.length;
+  while (String(length).length + body.length !== length) {
+    length = String(length).length + body.length;
+  }
+
+  const record = new Uint8Array(length);
+  record.set(new TextEncoder().encode(String(length)));
+  record.set(body, length - body.length);
+  return record;
+}
+
+/**
+ * Splits an ASCII path into ustar prefix and name fields (155 and 100
+ * bytes), or returns null when it doesn't fit.
+ */
+function splitTarPath(path: string): { prefix: string; name: string } | null {
+  if (path.length <= 100) {
+    return { prefix: "", name: path };
+  }
+
+  // Split at the first slash that leaves a name of at most 100 bytes
+  for (let i = path.indexOf("/"); i !== -1; i = path.indexOf("/", i + 1)) {
+    const prefix = path.slice(0, i);
+    const name = path.slice(i + 1);
+    if (prefix.length <= 155 && name.length <= 100) {
+      return { prefix, name };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the zero bytes needed to fill the last block of a body.
+ */
+function getPadding(size: number): number {
+  const remainder = size % BLOCK_SIZE;
+  return remainder === 0 ? 0 : BLOCK_SIZE - remainder;
+}
+
+/**
+ * Writes an ASCII string into a header field.
+ */
+function writeString(
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: string
+): void {
+  if (value.length > length || !/^[\x00-\x7f]*$/.test(value)) {
+    throw new Error(`Invalid tar header field: ${value}`);
+  }
+  for (let i = 0; i < value.length; i++) {
+    header[offset + i] = value.charCodeAt(i);
+  }
+}
+
+function writeOctal(
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: number
+): void {
+  const digits = value.toString(8).padStart(length - 1, "0");
+  writeString(header, offset, length, digits);
+}
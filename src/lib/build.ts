@@ -0,0 +1,191 @@
+import type {
+  SkillIndex,
+  SkillProvider,
+  StaticBuildOptions,
+  StaticBuildResult,
+} from "../types.js";
+import { createSkillsHandler } from "../handler/index.js";
+
+/**
+ * Response headers copied into `_headers`. Validators are left out since
+ * static hosts generate their own.
+ */
+const STATIC_HEADERS = [
+  "Content-Type",
+  "Cache-Control",
+  "Content-Digest",
+  "Content-Disposition",
+  "Access-Control-Allow-Origin",
+  "Access-Control-Allow-Methods",
+  "Access-Control-Allow-Headers",
+  "Access-Control-Expose-Headers",
+];
+
+/**
+ * Writes the files the skills handler would serve into a directory, for
+ * static hosting. Every response is generated by the handler itself, so
+ * `index.json`, `SKILL.md` files and supporting files are identical to
+ * what `createSkillsHandler` serves with the same options.
+ *
+ * Skills with versions also get their pinned routes, such as
+ * `{name}@{version}/SKILL.md`, for every version the index lists.
+ *
+ * Files are written under `outDir` at the base path (e.g.
+ * `public/.well-known/skills/index.json`); `_headers` and `_redirects`
+ * are written to `outDir` itself.
+ *
+ * @example
+ * ```typescript
+ * await buildStaticSkills(await createFileProvider("./skills"), "public", {
+ *   headers: true,
+ *   redirects: true,
+ * });
+ * ```
+ */
+export async function buildStaticSkills(
+  provider: SkillProvider,
+  outDir: string,
+  options: StaticBuildOptions = {}
+): Promise<StaticBuildResult> {
+  const fs = await import("fs/promises");
+  const path = await import("path");
+
+  const {
+    basePath = "/.well-known/skills",
+    headers: writeHeaders = false,
+    redirects: writeRedirects = false,
+    ...handlerConfig
+  } = options;
+  const normalizedBasePath = basePath.replace(/\/$/, "");
+
+  const handler = createSkillsHandler(provider, {
+    ...handlerConfig,
+    basePath: normalizedBasePath,
+  });
+
+  // A single allowed origin can be written out; patterns and predicates
+  // need a server to check each request's origin
+  const origin =
+    typeof handlerConfig.cors === "string" && !handlerConfig.cors.includes("*")
+      ? handlerConfig.cors
+      : null;
+
+  const resolvedOutDir = path.resolve(outDir);
+  const files: string[] = [];
+  const headerRules: string[] = [];
+
+  /**
+   * Requests a path from the handler and writes the response body,
+   * returning the response or null when the handler returned 404.
+   */
+  async function writeRoute(routePath: string): Promise<Response | null> {
+    const urlPath = `${normalizedBasePath}/${routePath}`;
+    const response = await handler(
+      new Request(new URL(encodeURI(urlPath), "http://localhost"), {
+        headers: origin ? { Origin: origin } : {},
+      })
+    );
+
+    if (response.status === 404) {
+      console.warn(`[skills-handler] Skipping missing file: ${routePath}`);
+      return null;
+    }
+    if (response.status !== 200) {
+      throw new Error(
+        `Failed to build ${urlPath}: handler returned ${response.status}`
+      );
+    }
+
+    const outputPath = path.join(resolvedOutDir, urlPath);
+    if (!outputPath.startsWith(resolvedOutDir + path.sep)) {
+      throw new Error(`Refusing to write outside ${outDir}: ${urlPath}`);
+    }
+
+    const body = new Uint8Array(await response.clone().arrayBuffer());
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    await fs.writeFile(outputPath, body);
+    files.push(
+      path.relative(resolvedOutDir, outputPath).split(path.sep).join("/")
+    );
+
+    const lines = STATIC_HEADERS.flatMap((name) => {
+      const value = response.headers.get(name);
+      return value ? [`  ${name}: ${value}`] : [];
+    });
+    headerRules.push([encodeURI(urlPath), ...lines].join("\n"));
+
+    return response;
+  }
+
+  const indexResponse = await writeRoute("index.json");
+  if (!indexResponse) {
+    throw new Error("Failed to build index.json");
+  }
+  const index = (await indexResponse.json()) as SkillIndex;
+
+  for (const skill of index.skills) {
+    await writeRoute(`${skill.name}/SKILL.md`);
+
+    for (const filePath of skill.files) {
+      if (filePath === "SKILL.md") continue;
+      await writeRoute(`${skill.name}/${filePath}`);
+    }
+
+    if (skill.archive) {
+      await writeRoute(skill.archive);
+    }
+
+    for (const version of skill.versions ?? []) {
+      const skillId = `${skill.name}@${version}`;
+      const files =
+        version === skill.version
+          ? skill.files
+          : (await provider.getSkillVersion?.(skill.name, version))?.files ??
+            ["SKILL.md"];
+
+      await writeRoute(`${skillId}/SKILL.md`);
+      for (const filePath of files) {
+        if (filePath === "SKILL.md") continue;
+        await writeRoute(`${skillId}/${filePath}`);
+      }
+
+      if (skill.archive) {
+        await writeRoute(`${skillId}.tar.gz`);
+      }
+    }
+  }
+
+  if (writeHeaders) {
+    await fs.mkdir(resolvedOutDir, { recursive: true });
+    await fs.writeFile(
+      path.join(resolvedOutDir, "_headers"),
+      `${headerRules.join("\n\n")}\n`
+    );
+    files.push("_headers");
+  }
+
+  if (writeRedirects) {
+    const base = normalizedBasePath;
+    const rules = [
+      ...(base ? [`${base} ${base}/index.json 302`] : []),
+      `${base}/ ${base}/index.json 302`,
+      ...index.skills.flatMap((skill) => {
+        const skillIds = [
+          skill.name,
+          ...(skill.versions ?? []).map((version) => `${skill.name}@${version}`),
+        ];
+        return skillIds.map(
+          (skillId) => `${base}/${skillId} ${base}/${skillId}/SKILL.md 302`
+        );
+      }),
+    ];
+    await fs.mkdir(resolvedOutDir, { recursive: true });
+    await fs.writeFile(
+      path.join(resolvedOutDir, "_redirects"),
+      `${rules.join("\n")}\n`
+    );
+    files.push("_redirects");
+  }
+
+  return { skillCount: index.skills.length, files };
+}
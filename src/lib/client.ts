@@ -0,0 +1,448 @@
+import type {
+  Skill,
+  SkillDiagnostic,
+  SkillIndex,
+  SkillIndexEntry,
+  SkillsClient,
+  SkillsClientErrorCode,
+  SkillsClientOptions,
+  SkillsClientWarning,
+} from "../types.js";
+import { checkSkillFrontmatter, isValidFilePath } from "../types.js";
+import { sha256Digest } from "./hash.js";
+import { validateSkill } from "./validate.js";
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/**
+ * Thrown by a skills client when a request fails or returns invalid data.
+ */
+export class SkillsClientError extends Error {
+  readonly code: SkillsClientErrorCode;
+  /** The URL that was requested */
+  readonly url: string;
+  /** The response status, for `HTTP_ERROR` and `NOT_FOUND` */
+  readonly status?: number;
+  /** Validation diagnostics, for `INVALID_SKILL` */
+  readonly diagnostics?: SkillDiagnostic[];
+
+  constructor(
+    code: SkillsClientErrorCode,
+    message: string,
+    details: {
+      url: string;
+      status?: number;
+      diagnostics?: SkillDiagnostic[];
+      cause?: unknown;
+    }
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "SkillsClientError";
+    this.code = code;
+    this.url = details.url;
+    this.status = details.status;
+    this.diagnostics = details.diagnostics;
+  }
+}
+
+/**
+ * A response body kept for reuse, with its validators and freshness.
+ */
+interface CachedResponse {
+  /** The URL the body was served from, after redirects */
+  url: string;
+  body: Uint8Array;
+  contentType: string;
+  etag?: string;
+  lastModified?: string;
+  /** Time until which the body can be used without revalidating */
+  expires: number;
+}
+
+/**
+ * Creates a client for a well-known skills endpoint.
+ *
+ * `origin` may be a site origin (the endpoint is assumed to be at
+ * `basePath`), the endpoint's URL or the URL of its index.json. SKILL.md
+ * files and other files are only fetched when asked for. Responses are
+ * cached in memory according to their `Cache-Control` headers and
+ * revalidated with `ETag` and `Last-Modified`.
+ *
+ * @example
+ * ```typescript
+ * const client = createSkillsClient("https://example.com");
+ *
+ * const { skills } = await client.getIndex();
+ * const skill = await client.getSkill(skills[0].name);
+ * const { data } = await client.getSkillFile(skill.name, "scripts/run.py");
+ * ```
+ */
+export function createSkillsClient(
+  origin: string,
+  options: SkillsClientOptions = {}
+): SkillsClient {
+  const {
+    basePath = "/.well-known/skills",
+    fetch: fetchImpl = (input, init) => globalThis.fetch(input, init),
+    headers: defaultHeaders,
+    verifyDigests = true,
+    maxRedirects = 5,
+    onWarning = (warning) => console.warn(`[skills-handler] ${warning.message}`),
+  } = options;
+
+  const indexUrl = resolveIndexUrl(origin, basePath);
+  const cache = new Map<string, CachedResponse>();
+  const parsedIndexes = new WeakMap<CachedResponse, SkillIndex>();
+  const parsedSkills = new WeakMap<CachedResponse, Skill>();
+
+  /**
+   * Fetches a URL, reusing or revalidating a cached response and
+   * following redirects.
+   */
+  async function request(url: string): Promise<CachedResponse> {
+    const cached = cache.get(url);
+    if (cached && Date.now() < cached.expires) {
+      return cached;
+    }
+
+    const headers = new Headers(defaultHeaders);
+    if (cached?.etag) headers.set("If-None-Match", cached.etag);
+    if (cached?.lastModified) {
+      headers.set("If-Modified-Since", cached.lastModified);
+    }
+
+    let currentUrl = url;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      try {
+        response = await fetchImpl(currentUrl, { headers, redirect: "follow" });
+      } catch (error) {
+        throw new SkillsClientError(
+          "NETWORK_ERROR",
+          `Failed to fetch ${currentUrl}: ${error instanceof Error ? error.message : String(error)}`,
+          { url: currentUrl, cause: error }
+        );
+      }
+
+      // fetch follows redirects itself; custom implementations may not
+      const location = response.headers.get("Location");
+      if (!REDIRECT_STATUSES.has(response.status) || !location) break;
+      if (redirects >= maxRedirects) {
+        throw new SkillsClientError(
+          "TOO_MANY_REDIRECTS",
+          `Too many redirects fetching ${url}`,
+          { url }
+        );
+      }
+      currentUrl = new URL(location, currentUrl).href;
+    }
+
+    const freshness = parseCacheControl(response.headers);
+
+    if (response.status === 304 && cached) {
+      cached.expires = freshness.expires;
+      return cached;
+    }
+
+    if (response.status === 404 || response.status === 410) {
+      cache.delete(url);
+      throw new SkillsClientError("NOT_FOUND", `Not found: ${currentUrl}`, {
+        url: currentUrl,
+        status: response.status,
+      });
+    }
+
+    if (!response.ok) {
+      throw new SkillsClientError(
+        "HTTP_ERROR",
+        `Failed to fetch ${currentUrl}: ${response.status} ${response.statusText}`.trim(),
+        { url: currentUrl, status: response.status }
+      );
+    }
+
+    const entry: CachedResponse = {
+      url: response.url || currentUrl,
+      body: new Uint8Array(await response.arrayBuffer()),
+      contentType:
+        response.headers.get("Content-Type") ?? "application/octet-stream",
+      etag: response.headers.get("ETag") ?? undefined,
+      lastModified: response.headers.get("Last-Modified") ?? undefined,
+      expires: freshness.expires,
+    };
+
+    if (freshness.store) {
+      cache.set(url, entry);
+    } else {
+      cache.delete(url);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Fetches and validates index.json, returning it with the URL it was
+   * served from so skill URLs can be resolved against it.
+   */
+  async function loadIndex(): Promise<{ index: SkillIndex; baseUrl: string }> {
+    const response = await request(indexUrl);
+
+    let index = parsedIndexes.get(response);
+    if (!index) {
+      let data: unknown;
+      try {
+        data = JSON.parse(new TextDecoder().decode(response.body));
+      } catch (error) {
+        throw new SkillsClientError(
+          "INVALID_INDEX",
+          `Invalid index at ${response.url}: not valid JSON`,
+          { url: response.url, cause: error }
+        );
+      }
+      index = parseIndex(data, response.url, onWarning);
+      parsedIndexes.set(response, index);
+    }
+
+    return { index, baseUrl: response.url };
+  }
+
+  /**
+   * Looks up a skill in the index, throwing when it isn't listed.
+   */
+  async function findEntry(
+    name: string
+  ): Promise<{ entry: SkillIndexEntry; baseUrl: string }> {
+    const { index, baseUrl } = await loadIndex();
+    const entry = index.skills.find((skill) => skill.name === name);
+    if (!entry) {
+      throw new SkillsClientError(
+        "NOT_FOUND",
+        `Skill not found in ${baseUrl}: ${name}`,
+        { url: baseUrl }
+      );
+    }
+    return { entry, baseUrl };
+  }
+
+  /**
+   * Fetches a file of a skill and checks it against the index's digest.
+   */
+  async function fetchFile(
+    entry: SkillIndexEntry,
+    baseUrl: string,
+    filePath: string
+  ): Promise<CachedResponse> {
+    const url = new URL(encodeURI(`${entry.name}/${filePath}`), baseUrl).href;
+    const response = await request(url);
+
+    const expected = entry.digests?.[filePath];
+    if (verifyDigests && expected) {
+      const actual = await sha256Digest(response.body);
+      if (actual !== expected) {
+        cache.delete(url);
+        throw new SkillsClientError(
+          "DIGEST_MISMATCH",
+          `Digest mismatch for ${entry.name}/${filePath}: expected ${expected}, got ${actual}`,
+          { url: response.url }
+        );
+      }
+    }
+
+    return response;
+  }
+
+  return {
+    indexUrl,
+
+    async getIndex() {
+      const { index } = await loadIndex();
+      return index;
+    },
+
+    async getSkill(name) {
+      const { entry, baseUrl } = await findEntry(name);
+      const response = await fetchFile(entry, baseUrl, "SKILL.md");
+
+      const cachedSkill = parsedSkills.get(response);
+      if (cachedSkill) return cachedSkill;
+
+      const source = new TextDecoder().decode(response.body);
+      const { valid, diagnostics, frontmatter, body } = validateSkill(source, {
+        directoryName: name,
+      });
+      if (!valid || !frontmatter) {
+        throw new SkillsClientError(
+          "INVALID_SKILL",
+          `Invalid SKILL.md for ${name}: ${diagnostics[0]?.message ?? "invalid frontmatter"}`,
+          { url: response.url, diagnostics }
+        );
+      }
+      if (frontmatter.name !== name) {
+        throw new SkillsClientError(
+          "INVALID_SKILL",
+          `SKILL.md for ${name} is named "${frontmatter.name}"`,
+          { url: response.url, diagnostics }
+        );
+      }
+
+      const skill: Skill = {
+        ...frontmatter,
+        body: (body ?? "").trim(),
+        files: entry.files,
+        ...(entry.digests && { digests: entry.digests }),
+        ...(response.lastModified && {
+          lastModified: new Date(response.lastModified),
+        }),
+      };
+      parsedSkills.set(response, skill);
+      return skill;
+    },
+
+    async getSkillFile(name, filePath) {
+      const { entry, baseUrl } = await findEntry(name);
+      if (!entry.files.includes(filePath)) {
+        throw new SkillsClientError(
+          "NOT_FOUND",
+          `File not found in skill ${name}: ${filePath}`,
+          { url: baseUrl }
+        );
+      }
+
+      const { body, contentType } = await fetchFile(entry, baseUrl, filePath);
+      return { data: body, contentType };
+    },
+  };
+}
+
+/**
+ * Resolves the URL of index.json from an origin, endpoint URL or index URL.
+ */
+function resolveIndexUrl(origin: string, basePath: string): string {
+  const url = new URL(origin);
+  url.search = "";
+  url.hash = "";
+
+  if (!url.pathname.endsWith("/index.json")) {
+    const path = url.pathname === "/" ? basePath : url.pathname;
+    url.pathname = `${path.replace(/\/$/, "")}/index.json`;
+  }
+
+  return url.href;
+}
+
+/**
+ * Reads whether and for how long a response may be reused without
+ * revalidation. Responses without a max-age are always revalidated.
+ */
+function parseCacheControl(headers: Headers): {
+  store: boolean;
+  expires: number;
+} {
+  const directives = (headers.get("Cache-Control") ?? "")
+    .toLowerCase()
+    .split(",")
+    .map((directive) => directive.trim());
+
+  if (directives.includes("no-store")) {
+    return { store: false, expires: 0 };
+  }
+
+  const maxAge = directives
+    .map((directive) => /^max-age=(\d+)$/.exec(directive)?.[1])
+    .find((value) => value !== undefined);
+  if (maxAge === undefined || directives.includes("no-cache")) {
+    return { store: true, expires: 0 };
+  }
+
+  const age = Number(headers.get("Age") ?? 0) || 0;
+  return {
+    store: true,
+    expires: Date.now() + Math.max(0, Number(maxAge) - age) * 1000,
+  };
+}
+
+/**
+ * Validates the structure of index.json. Entries with invalid names,
+ * descriptions or file lists are left out and reported through
+ * `onWarning`, as the handler does for invalid skills.
+ */
+function parseIndex(
+  data: unknown,
+  url: string,
+  onWarning: (warning: SkillsClientWarning) => void
+): SkillIndex {
+  if (
+    typeof data !== "object" ||
+    data === null ||
+    !Array.isArray((data as { skills?: unknown }).skills)
+  ) {
+    throw new SkillsClientError(
+      "INVALID_INDEX",
+      `Invalid index at ${url}: expected an object with a "skills" array`,
+      { url }
+    );
+  }
+
+  const skills: SkillIndexEntry[] = [];
+  for (const item of (data as { skills: unknown[] }).skills) {
+    const problem = checkIndexEntry(item);
+    if (problem) {
+      const name = (item as { name?: unknown } | null)?.name;
+      onWarning({
+        type: "INVALID_INDEX_ENTRY",
+        url,
+        ...(typeof name === "string" && { skillName: name }),
+        message: `Skipping skill in ${url}: ${problem}`,
+        timestamp: Date.now(),
+      });
+      continue;
+    }
+    skills.push(item as SkillIndexEntry);
+  }
+
+  return { skills };
+}
+
+/**
+ * Returns a description of what's wrong with an index entry, or null.
+ */
+function checkIndexEntry(item: unknown): string | null {
+  if (typeof item !== "object" || item === null || Array.isArray(item)) {
+    return "entry is not an object";
+  }
+
+  const entry = item as Record<string, unknown>;
+  const error = checkSkillFrontmatter({
+    name: entry.name,
+    description: entry.description,
+  }).find((diagnostic) => diagnostic.severity === "error");
+  if (error) return error.message;
+
+  if (
+    !Array.isArray(entry.files) ||
+    !entry.files.every(
+      (filePath) => typeof filePath === "string" && isValidFilePath(filePath)
+    )
+  ) {
+    return `${String(entry.name)}: "files" must be an array of relative file paths`;
+  }
+  if (!entry.files.includes("SKILL.md")) {
+    return `${String(entry.name)}: "files" must include SKILL.md`;
+  }
+
+  if (
+    entry.digests !== undefined &&
+    (typeof entry.digests !== "object" ||
+      entry.digests === null ||
+      !Object.values(entry.digests).every((d) => typeof d === "string"))
+  ) {
+    return `${String(entry.name)}: "digests" must map file paths to strings`;
+  }
+
+  for (const field of ["digest", "archive"]) {
+    if (entry[field] !== undefined && typeof entry[field] !== "string") {
+      return `${String(entry.name)}: "${field}" must be a string`;
+    }
+  }
+
+  return null;
+}
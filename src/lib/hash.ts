@@ -0,0 +1,58 @@
+/**
+ * Computes the SHA-256 digest of a string or byte array as a hex string.
+ * Uses the Web Crypto API so it works in Node.js and edge runtimes alike.
+ */
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-256",
+    bytes as BufferSource
+  );
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Computes a content digest in the `sha256:<hex>` form used by the index.
+ */
+export async function sha256Digest(data: string | Uint8Array): Promise<string> {
+  return `sha256:${await sha256Hex(data)}`;
+}
+
+/**
+ * Converts a `sha256:<hex>` digest into an RFC 9530 `Content-Digest` value.
+ * Returns undefined for digests using other algorithms.
+ */
+export function toContentDigest(digest: string): string | undefined {
+  const match = digest.match(/^sha256:([0-9a-f]{64})$/);
+  if (!match) return undefined;
+
+  const hex = match[1]!;
+  let binary = "";
+  for (let i = 0; i < hex.length; i += 2) {
+    binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  }
+
+  return `sha-256=:${btoa(binary)}:`;
+}
+
+/**
+ * Computes a digest covering every file in a skill from per-file digests.
+ * Hashes one `<hex>  <path>` line per file, sorted by path, which matches
+ * the output of `sha256sum` run over the skill directory.
+ */
+export async function skillDigest(
+  digests: Record<string, string>
+): Promise<string> {
+  const manifest = Object.keys(digests)
+    .sort()
+    .map((filePath) => {
+      const hex = digests[filePath]!.replace(/^sha256:/, "");
+      return `${hex}  ${filePath}\n`;
+    })
+    .join("");
+
+  return sha256Digest(manifest);
+}
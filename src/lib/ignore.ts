@@ -0,0 +1,214 @@
+/**
+ * Name of the ignore file read from the skills directory and from each
+ * skill directory.
+ */
+export const IGNORE_FILE = ".skillsignore";
+
+/**
+ * A single parsed ignore pattern.
+ */
+export interface IgnoreRule {
+  /** Matches a path relative to the directory the rule applies to */
+  regex: RegExp;
+  /** Whether the pattern starts with `!` and re-includes matches */
+  negated: boolean;
+  /** Whether the pattern ends with `/` and only matches directories */
+  directoryOnly: boolean;
+}
+
+/**
+ * Parses patterns using gitignore syntax:
+ * - Blank lines and lines starting with `#` are ignored
+ * - `!` negates a pattern, re-including previously ignored paths
+ * - A trailing `/` matches directories only
+ * - Patterns containing a non-trailing `/` are anchored to the base
+ *   directory; others match at any depth
+ * - `*`, `?`, `[...]` and `**` behave as in gitignore
+ */
+export function parseIgnorePatterns(patterns: string[]): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const line of patterns) {
+    let pattern = line.replace(/(?<!\\)\s+$/, "");
+    if (!pattern || pattern.startsWith("#")) continue;
+
+    const negated = pattern.startsWith("!");
+    if (negated) pattern = pattern.slice(1);
+    if (pattern.startsWith("\\#") || pattern.startsWith("\\!")) {
+      pattern = pattern.slice(1);
+    }
+
+    const directoryOnly = pattern.endsWith("/");
+    if (directoryOnly) pattern = pattern.slice(0, -1);
+    if (!pattern) continue;
+
+    const anchored = pattern.includes("/");
+    if (pattern.startsWith("/")) pattern = pattern.slice(1);
+
+    const source = globToRegExpSource(pattern);
+    rules.push({
+      regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Parses the contents of an ignore file such as `.skillsignore`.
+ */
+export function parseIgnoreFile(content: string): IgnoreRule[] {
+  return parseIgnorePatterns(content.split(/\r?\n/));
+}
+
+/**
+ * Returns whether a path is ignored by a list of rules. Later rules take
+ * precedence, so a negated pattern can re-include an earlier match.
+ * Returns undefined when no rule matches.
+ */
+export function matchIgnoreRules(
+  rules: IgnoreRule[],
+  path: string,
+  isDirectory: boolean
+): boolean | undefined {
+  let ignored: boolean | undefined;
+
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    if (rule.regex.test(path)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Files never published unless re-included with a negated pattern in a
+ * `.skillsignore` file.
+ */
+const DEFAULT_IGNORE_RULES = parseIgnorePatterns([
+  ".*",
+  "node_modules/",
+  "__pycache__/",
+  "*.pyc",
+  "Thumbs.db",
+]);
+
+/**
+ * Rules that decide which files within a skill are published.
+ */
+export interface IgnoreFilterOptions {
+  /** The skill directory name, used to match root rules */
+  dirName: string;
+  /** Rules from the skills directory's ignore file */
+  rootRules: IgnoreRule[];
+  /** Rules from the skill directory's ignore file */
+  skillRules: IgnoreRule[];
+  /** Files to publish, or null to publish everything not ignored */
+  includeRules: IgnoreRule[] | null;
+  /** Files never to publish */
+  excludeRules: IgnoreRule[];
+}
+
+/**
+ * Creates a predicate deciding whether a path within a skill is
+ * published. Explicit excludes win; otherwise the skill's ignore file
+ * overrides the root ignore file, which overrides the built-in defaults.
+ */
+export function createIgnoreFilter({
+  dirName,
+  rootRules,
+  skillRules,
+  includeRules,
+  excludeRules,
+}: IgnoreFilterOptions): (
+  relativePath: string,
+  isDirectory: boolean
+) => boolean {
+  return (relativePath, isDirectory) => {
+    // SKILL.md is always published
+    if (relativePath === "SKILL.md") return true;
+
+    const ignored =
+      matchIgnoreRules(excludeRules, relativePath, isDirectory) ||
+      (matchIgnoreRules(skillRules, relativePath, isDirectory) ??
+        matchIgnoreRules(
+          rootRules,
+          `${dirName}/${relativePath}`,
+          isDirectory
+        ) ??
+        matchIgnoreRules(DEFAULT_IGNORE_RULES, relativePath, isDirectory) ??
+        false);
+    if (ignored) return false;
+
+    // Directories are always descended into; include applies to files
+    if (isDirectory || !includeRules) return true;
+
+    // A file is included when it or one of its parent directories matches
+    const segments = relativePath.split("/");
+    return segments.some(
+      (_, i) =>
+        matchIgnoreRules(
+          includeRules,
+          segments.slice(0, i + 1).join("/"),
+          i < segments.length - 1
+        ) === true
+    );
+  };
+}
+
+/**
+ * Converts a glob into a regular expression source string.
+ */
+function globToRegExpSource(glob: string): string {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]!;
+
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        const atStart = i === 0 || glob[i - 1] === "/";
+        const atEnd = i + 2 === glob.length;
+        if (atStart && glob[i + 2] === "/") {
+          // "**/" matches zero or more directories
+          source += "(?:.*/)?";
+          i += 2;
+          continue;
+        }
+        if (atStart && atEnd) {
+          // trailing "/**" matches everything inside
+          source += ".*";
+          i += 1;
+          continue;
+        }
+      }
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      let range = glob.slice(i + 1, end).replace(/\\/g, "\\\\");
+      if (range.startsWith("!")) range = `^${range.slice(1)}`;
+      source += `[${range}]`;
+      i = end;
+    } else if (char === "\\" && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]!);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -0,0 +1,87 @@
+import type { IncomingMessage, ServerResponse } from "http";
+import type { SkillsHandler } from "../types.js";
+
+/**
+ * Adapts a skills handler to Node.js `http` request listeners, for use
+ * with `http.createServer`, Express or any framework built on them.
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from "http";
+ *
+ * const handler = createSkillsHandler(await createFileProvider("./skills"));
+ * createServer(toNodeListener(handler)).listen(3000);
+ * ```
+ */
+export function toNodeListener(
+  handler: SkillsHandler
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  return async (req, res) => {
+    try {
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(req.headers)) {
+        if (value === undefined) continue;
+        headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+      }
+
+      // The handler only serves GET, HEAD and OPTIONS, so request bodies
+      // are never read
+      const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+      const response = await handler(
+        new Request(url, { method: req.method, headers })
+      );
+
+      res.statusCode = response.status;
+      response.headers.forEach((value, name) => {
+        res.setHeader(name, value);
+      });
+
+      if (!response.body) {
+        res.end();
+        return;
+      }
+
+      const reader = response.body.getReader();
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        // Respect backpressure from slow clients, and stop reading (so the
+        // provider can release the file) when the client goes away
+        if (res.destroyed || (!res.write(value) && !(await waitForDrain(res)))) {
+          await reader.cancel();
+          return;
+        }
+      }
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+      res.statusCode = 500;
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ error: "Internal server error" }));
+    }
+  };
+}
+
+/**
+ * Waits until a response can take more data. Resolves false when the
+ * connection closes first, since `drain` is then never emitted.
+ */
+function waitForDrain(res: ServerResponse): Promise<boolean> {
+  return new Promise((resolve) => {
+    const done = (drained: boolean) => {
+      res.off("drain", onDrain);
+      res.off("close", onClose);
+      res.off("error", onClose);
+      resolve(drained);
+    };
+    const onDrain = () => done(true);
+    const onClose = () => done(false);
+
+    res.on("drain", onDrain);
+    res.on("close", onClose);
+    res.on("error", onClose);
+  });
+}
@@ -0,0 +1,105 @@
+import type {
+  OpenTelemetryAttributes,
+  OpenTelemetryOptions,
+  RequestCompletedEvent,
+  SkillsEvent,
+} from "../types.js";
+
+/** `SpanKind.SERVER` */
+const SPAN_KIND_SERVER = 1;
+/** `SpanStatusCode.ERROR` */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Creates an `onEvent` listener that reports handler events to
+ * OpenTelemetry using the HTTP semantic conventions:
+ *
+ * - a server span per request, from its REQUEST_COMPLETED event
+ * - `http.server.request.duration` and `http.server.response.body.size`
+ *   histograms
+ * - a `skills.events` counter of the other events by type and skill
+ *
+ * Spans are recorded after the response is sent, so they start a new trace
+ * rather than joining the one an instrumented server created.
+ *
+ * @example
+ * ```typescript
+ * import { metrics, trace } from "@opentelemetry/api";
+ *
+ * const handler = createSkillsHandler(provider, {
+ *   onEvent: createOpenTelemetryListener({
+ *     tracer: trace.getTracer("skills-handler"),
+ *     meter: metrics.getMeter("skills-handler"),
+ *   }),
+ * });
+ * ```
+ */
+export function createOpenTelemetryListener(
+  options: OpenTelemetryOptions
+): (event: SkillsEvent) => void {
+  const { tracer, meter, attributes: baseAttributes = {} } = options;
+
+  const duration = meter?.createHistogram("http.server.request.duration", {
+    description: "Duration of HTTP server requests.",
+    unit: "s",
+  });
+  const bodySize = meter?.createHistogram("http.server.response.body.size", {
+    description: "Size of HTTP server response bodies.",
+    unit: "By",
+  });
+  const events = meter?.createCounter("skills.events", {
+    description: "Skills handler events by type.",
+  });
+
+  /**
+   * Records the span and metrics for a completed request.
+   */
+  function recordRequest(event: RequestCompletedEvent): void {
+    const metricAttributes: OpenTelemetryAttributes = {
+      ...baseAttributes,
+      "http.request.method": event.method,
+      "http.response.status_code": event.status,
+    };
+    duration?.record(event.duration / 1000, metricAttributes);
+    bodySize?.record(event.bytes, metricAttributes);
+
+    if (!tracer) return;
+
+    const spanAttributes: OpenTelemetryAttributes = {
+      ...metricAttributes,
+      "url.path": event.path,
+      "http.response.body.size": event.bytes,
+      "skills.cache": event.cache,
+    };
+    if (event.userAgent) spanAttributes["user_agent.original"] = event.userAgent;
+    if (event.skillName) spanAttributes["skills.skill.name"] = event.skillName;
+    if (event.filePath) spanAttributes["skills.file.path"] = event.filePath;
+    if (event.aborted) spanAttributes["skills.aborted"] = true;
+
+    const span = tracer.startSpan(event.method, {
+      kind: SPAN_KIND_SERVER,
+      startTime: event.timestamp - event.duration,
+      attributes: spanAttributes,
+    });
+    if (event.status >= 500) {
+      span.setStatus({ code: SPAN_STATUS_ERROR });
+    }
+    span.end(event.timestamp);
+  }
+
+  return (event) => {
+    if (event.type === "REQUEST_COMPLETED") {
+      recordRequest(event);
+      return;
+    }
+
+    const attributes: OpenTelemetryAttributes = {
+      ...baseAttributes,
+      "skills.event.type": event.type,
+    };
+    if ("skillName" in event && event.skillName) {
+      attributes["skills.skill.name"] = event.skillName;
+    }
+    events?.add(1, attributes);
+  };
+}
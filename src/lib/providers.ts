@@ -1,14 +1,56 @@
-import type { Skill, SkillProvider } from "../types.js";
+import type {
+  FileProviderOptions,
+  FileSkillProvider,
+  Skill,
+  SkillArchiveEntry,
+  SkillChangeEvent,
+  SkillFileContent,
+  SkillFileStat,
+  SkillIndexEntry,
+  SkillProvider,
+  SkillWarning,
+  RemoteProviderOptions,
+  RemoteSkillProvider,
+} from "../types.js";
+import { sha256Digest, sha256Hex } from "./hash.js";
+import type { IgnoreRule } from "./ignore.js";
+import {
+  IGNORE_FILE,
+  createIgnoreFilter,
+  parseIgnoreFile,
+  parseIgnorePatterns,
+} from "./ignore.js";
+import {
+  getContentType,
+  isTextContentType,
+  reconstructSkillMd,
+  toSkillFile,
+} from "../handler/index.js";
 import {
   isValidSkillName,
+  isValidSkillVersion,
   isValidFilePath,
-  validateSkillFrontmatter,
 } from "../types.js";
+import { SkillValidationError, validateSkill } from "./validate.js";
+import { SkillsClientError, createSkillsClient } from "./client.js";
+
+const DEFAULT_CACHE_TTL = 60000; // 1 minute
+const WATCH_DEBOUNCE_MS = 50;
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MiB
+const DEFAULT_MAX_SKILL_SIZE = 50 * 1024 * 1024; // 50 MiB
+const DEFAULT_MAX_FILES = 1000;
+const DEFAULT_STALE_WHILE_REVALIDATE = 300000; // 5 minutes
+const DEFAULT_REMOTE_TIMEOUT = 10000; // 10 seconds
+const VERSIONS_DIR = "versions";
 
 /**
  * Creates a static skill provider from an array of skills.
  * Useful for defining skills directly in code.
  *
+ * Skills sharing a name are versions of one skill and must each set a
+ * distinct `version`. The newest is served as the latest revision; files of
+ * earlier versions are keyed `{name}@{version}` in `additionalFiles`.
+ *
  * @example
  * ```typescript
  * const provider = createStaticProvider([
@@ -23,38 +65,118 @@ import {
  */
 export function createStaticProvider(
   skills: Skill[],
-  additionalFiles?: Record<string, Record<string, string>>
+  additionalFiles?: Record<string, Record<string, SkillFileContent>>
 ): SkillProvider {
   // Validate skills on creation
   for (const skill of skills) {
-    if (!isValidSkillName(skill.name)) {
-      throw new Error(`Invalid skill name: ${skill.name}`);
+    const { valid, diagnostics } = validateSkill(skill);
+    if (!valid) {
+      throw new SkillValidationError(skill.name, diagnostics);
+    }
+  }
+
+  // Revisions of each skill, newest first
+  const revisions = new Map<string, Skill[]>();
+  for (const skill of skills) {
+    const list = revisions.get(skill.name) ?? [];
+    list.push(skill);
+    revisions.set(skill.name, list);
+  }
+
+  const skillMap = new Map<string, Skill>();
+  for (const [name, list] of revisions) {
+    if (list.length === 1) {
+      skillMap.set(name, list[0]!);
+      continue;
     }
+
+    const versions = list.map((skill) => skill.version);
     if (
-      !skill.description ||
-      typeof skill.description !== "string" ||
-      skill.description.length > 1024
+      versions.some((version) => version === undefined) ||
+      new Set(versions).size !== versions.length
     ) {
-      throw new Error(`Invalid skill description for: ${skill.name}`);
+      throw new SkillValidationError(name, [
+        {
+          code: "INVALID_FIELD",
+          severity: "error",
+          message: `Skill ${name} is defined more than once; give each definition a distinct version`,
+          field: "version",
+        },
+      ]);
     }
-    if (!skill.files.includes("SKILL.md")) {
-      throw new Error(`Skill ${skill.name} must include SKILL.md in files array`);
+
+    list.sort((a, b) => compareVersions(b.version!, a.version!));
+    skillMap.set(name, {
+      ...list[0]!,
+      versions: list.map((skill) => skill.version!),
+    });
+  }
+
+  /**
+   * Returns the in-memory files of a skill revision.
+   */
+  function getFiles(
+    skillName: string,
+    version?: string
+  ): Record<string, SkillFileContent> | undefined {
+    const latest = skillMap.get(skillName);
+    if (version === undefined || version === latest?.version) {
+      return additionalFiles?.[skillName];
     }
-    for (const file of skill.files) {
-      if (!isValidFilePath(file)) {
-        throw new Error(`Invalid file path in skill ${skill.name}: ${file}`);
+    return additionalFiles?.[`${skillName}@${version}`];
+  }
+
+  /**
+   * Precomputes digests for the reconstructed SKILL.md and any in-memory
+   * supporting files. Streams are skipped since reading them consumes them.
+   */
+  async function withDigests(skill: Skill, version?: string): Promise<Skill> {
+    if (skill.digests) return skill;
+
+    const digests: Record<string, string> = {
+      "SKILL.md": await sha256Digest(reconstructSkillMd(skill)),
+    };
+
+    for (const [filePath, content] of Object.entries(
+      getFiles(skill.name, version) ?? {}
+    )) {
+      const { data } = toSkillFile(content);
+      if (!(data instanceof ReadableStream)) {
+        digests[filePath] = await sha256Digest(data);
       }
     }
+
+    return { ...skill, digests };
   }
 
-  const skillMap = new Map(skills.map((s) => [s.name, s]));
+  // Digests are computed once, on the first request
+  let skillsWithDigests: Promise<Skill[]> | null = null;
+  const versionsWithDigests = new Map<string, Promise<Skill>>();
 
   return {
     getSkills() {
-      return skills;
+      skillsWithDigests ??= Promise.all(
+        Array.from(skillMap.values(), (skill) => withDigests(skill))
+      );
+      return skillsWithDigests;
     },
 
-    getSkillFile(skillName: string, filePath: string) {
+    getSkillVersion(skillName: string, version: string) {
+      const skill = revisions
+        .get(skillName)
+        ?.find((revision) => revision.version === version);
+      if (!skill) return null;
+
+      const key = `${skillName}@${version}`;
+      let pending = versionsWithDigests.get(key);
+      if (!pending) {
+        pending = withDigests(skill, version);
+        versionsWithDigests.set(key, pending);
+      }
+      return pending;
+    },
+
+    getSkillFile(skillName: string, filePath: string, version?: string) {
       const skill = skillMap.get(skillName);
       if (!skill) return null;
 
@@ -64,7 +186,7 @@ export function createStaticProvider(
       }
 
       // Check additional files
-      const skillFiles = additionalFiles?.[skillName];
+      const skillFiles = getFiles(skillName, version);
       if (skillFiles && filePath in skillFiles) {
         return skillFiles[filePath] ?? null;
       }
@@ -79,6 +201,7 @@ export function createStaticProvider(
  * Each skill is a directory containing SKILL.md and optional resources.
  *
  * @param skillsDir - Path to the directory containing skill directories
+ * @param options - Caching and watch mode options
  *
  * @example
  * ```typescript
@@ -91,113 +214,920 @@ export function createStaticProvider(
  * //     scripts/extract.py
  *
  * const provider = await createFileProvider("./skills");
+ *
+ * // In development, reload skills as they are edited
+ * const devProvider = await createFileProvider("./skills", { watch: true });
  * ```
  */
 export async function createFileProvider(
-  skillsDir: string
-): Promise<SkillProvider> {
+  skillsDir: string,
+  options: FileProviderOptions = {}
+): Promise<FileSkillProvider> {
   // We need to dynamically import fs and path for Node.js
   const fs = await import("fs/promises");
+  const { watch, readdirSync } = await import("fs");
   const path = await import("path");
 
-  // Try to import gray-matter for parsing frontmatter
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let matter: (content: string) => { data: Record<string, unknown>; content: string };
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    matter = require("gray-matter");
-  } catch {
-    throw new Error(
-      "gray-matter is required for file-based providers. Install it with: npm install gray-matter"
-    );
-  }
-
   const resolvedDir = path.resolve(skillsDir);
 
-  // Cache for skills
-  let skillsCache: Skill[] | null = null;
+  const {
+    watch: watchMode = false,
+    cacheTtl = watchMode ? Infinity : DEFAULT_CACHE_TTL,
+    include,
+    exclude = [],
+    symlinks = "reject",
+    maxFileSize = DEFAULT_MAX_FILE_SIZE,
+    maxSkillSize = DEFAULT_MAX_SKILL_SIZE,
+    maxFiles = DEFAULT_MAX_FILES,
+    versions: versionSource = false,
+    onChange,
+    onWarning = (warning) => console.warn(`[skills-handler] ${warning.message}`),
+  } = options;
+
+  const includeRules = include ? parseIgnorePatterns(include) : null;
+  const excludeRules = parseIgnorePatterns(exclude);
+
+  // Cache for skills, keyed by directory name
+  let skillsCache: Map<string, Skill> | null = null;
+  // Directory names keyed by the skill names they serve, which may differ
+  let skillDirs = new Map<string, string>();
   let lastScan = 0;
-  const CACHE_TTL = 60000; // 1 minute
+  let pendingScan: Promise<Skill[]> | null = null;
 
-  async function scanSkills(): Promise<Skill[]> {
-    const now = Date.now();
-    if (skillsCache && now - lastScan < CACHE_TTL) {
-      return skillsCache;
+  // Content hashes keyed by path, reused while size and mtime are unchanged
+  const hashCache = new Map<
+    string,
+    { size: number; mtimeMs: number; hash: string; binary: boolean }
+  >();
+
+  // Earlier versions keyed by `{name}@{version}`, loaded on first request
+  const versionCache = new Map<string, Promise<LoadedVersion | null>>();
+  // Versions tagged in git keyed by skill name, read once per scan
+  let gitTags: Promise<Map<string, string[]>> | null = null;
+
+  /**
+   * Returns the SHA-256 hex hash of a file and whether it contains binary
+   * data, reading it only when its size or mtime changed since last time.
+   */
+  async function hashFile(
+    fullPath: string,
+    stat: { size: number; mtimeMs: number }
+  ): Promise<{ hash: string; binary: boolean }> {
+    const cached = hashCache.get(fullPath);
+    if (
+      cached &&
+      cached.size === stat.size &&
+      cached.mtimeMs === stat.mtimeMs
+    ) {
+      return cached;
     }
 
-    const skills: Skill[] = [];
+    const bytes = await fs.readFile(fullPath);
+    const entry = {
+      size: stat.size,
+      mtimeMs: stat.mtimeMs,
+      hash: await sha256Hex(bytes),
+      binary: isBinaryContent(bytes),
+    };
+    hashCache.set(fullPath, entry);
+    return entry;
+  }
+
+  function warn(
+    type: SkillWarning["type"],
+    skillName: string,
+    filePath: string | undefined,
+    message: string
+  ): void {
+    onWarning({ type, skillName, filePath, message, timestamp: Date.now() });
+  }
+
+  /**
+   * Applies the symlink policy to a path found while scanning. Returns the
+   * target's stats when the path may be used, or null (after reporting a
+   * warning) when it may not. `root` is the real path the target must stay
+   * within.
+   */
+  async function checkSymlink(
+    fullPath: string,
+    root: string,
+    skillName: string,
+    filePath: string | undefined
+  ): Promise<Awaited<ReturnType<typeof fs.stat>> | null> {
+    const displayPath = filePath ? `${skillName}/${filePath}` : skillName;
+
+    if (symlinks === "reject") {
+      warn(
+        "SYMLINK_REJECTED",
+        skillName,
+        filePath,
+        `Skipping symlink ${displayPath}: symlinks are not allowed`
+      );
+      return null;
+    }
+
+    try {
+      const target = await fs.realpath(fullPath);
+      if (!isWithin(root, target)) {
+        const rootName = filePath ? "skill directory" : "skills directory";
+        warn(
+          "SYMLINK_REJECTED",
+          skillName,
+          filePath,
+          `Skipping symlink ${displayPath}: target is outside the ${rootName}`
+        );
+        return null;
+      }
+      return await fs.stat(target);
+    } catch {
+      // Dangling symlink
+      return null;
+    }
+  }
+
+  /**
+   * Loads the latest revision of a skill, listing its earlier versions.
+   */
+  async function loadSkill(dirName: string): Promise<Skill | null> {
+    const skill = await readSkillDirectory(dirName);
+    if (!skill) return skill;
+
+    const latestVersion = skill.metadata?.version;
+    const version =
+      latestVersion !== undefined && isValidSkillVersion(latestVersion)
+        ? latestVersion
+        : undefined;
+    const versions = versionSource
+      ? Array.from(
+          new Set([...(version ? [version] : []), ...(await listVersions(dirName))])
+        ).sort((a, b) => compareVersions(b, a))
+      : [];
+
+    return {
+      ...skill,
+      ...(version && { version }),
+      ...(versions.length > 0 && { versions }),
+    };
+  }
+
+  /**
+   * Loads a skill directory, or an earlier version of it from its
+   * `versions` directory. Returns null when it has no valid SKILL.md.
+   */
+  async function readSkillDirectory(
+    dirName: string,
+    version?: string
+  ): Promise<Skill | null> {
+    const parentDir =
+      version === undefined
+        ? resolvedDir
+        : path.join(resolvedDir, dirName, VERSIONS_DIR);
+    const label = version === undefined ? dirName : `${dirName}@${version}`;
+    const skillDir = path.join(parentDir, version ?? dirName);
+    const skillMdPath = path.join(skillDir, "SKILL.md");
+
+    try {
+      const dirStat = await fs.lstat(skillDir);
+      if (dirStat.isSymbolicLink()) {
+        const root = await fs.realpath(
+          version === undefined ? resolvedDir : path.join(resolvedDir, dirName)
+        );
+        if (!(await checkSymlink(skillDir, root, label, undefined))) {
+          return null;
+        }
+      }
+
+      const skillRoot = await fs.realpath(skillDir);
+      const skillMdStat = await fs.lstat(skillMdPath);
+      if (
+        skillMdStat.isSymbolicLink() &&
+        !(await checkSymlink(skillMdPath, skillRoot, label, "SKILL.md"))
+      ) {
+        return null;
+      }
+
+      const stat = await fs.stat(skillMdPath);
+      if (stat.size > maxFileSize) {
+        warn(
+          "FILE_TOO_LARGE",
+          label,
+          "SKILL.md",
+          `Skipping skill ${label}: SKILL.md is ${stat.size} bytes, over the ${maxFileSize} byte limit`
+        );
+        return null;
+      }
+
+      const content = await fs.readFile(skillMdPath, "utf-8");
+      const { valid, diagnostics, frontmatter, body } = validateSkill(content, {
+        directoryName: dirName,
+      });
+
+      if (!valid || !frontmatter) {
+        const [error] = diagnostics.filter((d) => d.severity === "error");
+        onWarning({
+          type: "INVALID_SKILL",
+          skillName: label,
+          filePath: "SKILL.md",
+          message: `Skipping skill ${label}: SKILL.md:${error?.line ?? 1}: ${error?.message}`,
+          diagnostics,
+          timestamp: Date.now(),
+        });
+        return null;
+      }
+
+      // Collect the published files in the skill directory. Earlier
+      // versions aren't part of the latest revision.
+      const isPublished = await createFileFilter(dirName);
+      const files = await collectFiles(
+        label,
+        skillRoot,
+        stat.size,
+        versionSource === "directories" && version === undefined
+          ? (relativePath, isDirectory) =>
+              !(isDirectory && relativePath === VERSIONS_DIR) &&
+              isPublished(relativePath, isDirectory)
+          : isPublished
+      );
+
+      const digests: Record<string, string> = {};
+      for (const file of files) {
+        const filePath = path.join(skillDir, file);
+        const { hash } = await hashFile(filePath, await fs.stat(filePath));
+        digests[file] = `sha256:${hash}`;
+      }
+
+      return {
+        ...frontmatter,
+        body: (body ?? "").trim(),
+        files,
+        etag: await sha256Hex(content),
+        lastModified: stat.mtime,
+        digests,
+        ...(frontmatter.metadata?.visibility === "private" && {
+          visibility: "private" as const,
+        }),
+        ...(version !== undefined && { version }),
+      };
+    } catch (err) {
+      // Skip directories without SKILL.md
+      const code = (err as NodeJS.ErrnoException).code;
+      if (code !== "ENOENT" && code !== "ENOTDIR") {
+        console.warn(`[skills-handler] Error reading ${skillMdPath}:`, err);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Replaces the cached skills, emitting change events for the differences.
+   * No events are emitted for the initial scan.
+   */
+  function updateCache(next: Map<string, Skill>): void {
+    const previous = skillsCache;
+    skillsCache = next;
+    skillDirs = new Map();
+    for (const [dirName, skill] of next) {
+      if (!skillDirs.has(skill.name)) skillDirs.set(skill.name, dirName);
+    }
+    if (!previous || !onChange) return;
+
+    const emit = (type: SkillChangeEvent["type"], skill: Skill) =>
+      onChange({ type, skillName: skill.name, timestamp: Date.now() });
+
+    for (const [dirName, skill] of next) {
+      const before = previous.get(dirName);
+      if (!before) {
+        emit("SKILL_ADDED", skill);
+      } else if (
+        before.etag !== skill.etag ||
+        JSON.stringify(before.digests) !== JSON.stringify(skill.digests)
+      ) {
+        emit("SKILL_CHANGED", skill);
+      }
+    }
+    for (const [dirName, skill] of previous) {
+      if (!next.has(dirName)) {
+        emit("SKILL_REMOVED", skill);
+      }
+    }
+  }
+
+  /**
+   * Rescans every skill directory.
+   */
+  async function rescan(): Promise<Skill[]> {
+    const now = Date.now();
+    const next = new Map<string, Skill>();
+    versionCache.clear();
+    gitTags = null;
 
     try {
       const entries = await fs.readdir(resolvedDir, { withFileTypes: true });
 
       for (const entry of entries) {
-        if (!entry.isDirectory()) continue;
+        // Symlinked skill directories are checked by loadSkill
+        if (!entry.isDirectory() && !entry.isSymbolicLink()) continue;
         if (!isValidSkillName(entry.name)) continue;
 
-        const skillDir = path.join(resolvedDir, entry.name);
-        const skillMdPath = path.join(skillDir, "SKILL.md");
+        const skill = await loadSkill(entry.name);
+        if (skill) next.set(entry.name, skill);
+      }
+    } catch (err) {
+      console.error(`[skills-handler] Error scanning skills directory:`, err);
+    }
+
+    updateCache(next);
+    lastScan = now;
+    return Array.from(next.values());
+  }
 
-        try {
-          const content = await fs.readFile(skillMdPath, "utf-8");
-          const parsed = matter(content);
+  async function scanSkills(): Promise<Skill[]> {
+    if (skillsCache && Date.now() - lastScan < cacheTtl) {
+      return Array.from(skillsCache.values());
+    }
+
+    // Share one scan between concurrent requests
+    pendingScan ??= rescan().finally(() => {
+      pendingScan = null;
+    });
+    return pendingScan;
+  }
+
+  /**
+   * Reloads the skills whose directories changed since the last reload.
+   */
+  async function reloadChangedSkills(): Promise<void> {
+    // Nothing is cached before the first request; it will scan everything
+    if (!skillsCache) {
+      changedSkills.clear();
+      return;
+    }
+
+    const dirNames = Array.from(changedSkills);
+    changedSkills.clear();
+
+    const next = new Map(skillsCache);
+    for (const dirName of dirNames) {
+      for (const key of versionCache.keys()) {
+        if (key.startsWith(`${dirName}@`)) versionCache.delete(key);
+      }
+      const skill = isValidSkillName(dirName) ? await loadSkill(dirName) : null;
+      if (skill) {
+        next.set(dirName, skill);
+      } else {
+        next.delete(dirName);
+      }
+    }
+    updateCache(next);
+  }
+
+  /**
+   * Lists the earlier versions of a skill, newest first.
+   */
+  async function listVersions(dirName: string): Promise<string[]> {
+    let versions: string[] = [];
+
+    if (versionSource === "git-tags") {
+      versions = (await getGitTags()).get(dirName) ?? [];
+    } else if (versionSource === "directories") {
+      try {
+        const entries = await fs.readdir(
+          path.join(resolvedDir, dirName, VERSIONS_DIR),
+          { withFileTypes: true }
+        );
+        versions = entries
+          .filter((entry) => entry.isDirectory() || entry.isSymbolicLink())
+          .map((entry) => entry.name)
+          .filter(isValidSkillVersion);
+      } catch {
+        // No versions directory
+      }
+    }
+
+    return versions.sort((a, b) => compareVersions(b, a));
+  }
+
+  /**
+   * Runs git in the skills directory, resolving with its output.
+   */
+  async function git(args: string[], maxBuffer = 1024 * 1024): Promise<Buffer> {
+    const { execFile } = await import("child_process");
+    return new Promise((resolve, reject) => {
+      execFile(
+        "git",
+        args,
+        { cwd: resolvedDir, encoding: "buffer", maxBuffer },
+        (error, stdout) => (error ? reject(error) : resolve(stdout))
+      );
+    });
+  }
+
+  /**
+   * Reads the `{name}@{version}` tags of the repository, grouped by name.
+   */
+  function getGitTags(): Promise<Map<string, string[]>> {
+    gitTags ??= git(["tag", "--list"]).then(
+      (output) => {
+        const tags = new Map<string, string[]>();
+        for (const tag of output.toString("utf-8").split("\n")) {
+          const at = tag.indexOf("@");
+          const name = tag.slice(0, at);
+          const version = tag.slice(at + 1);
+          if (at === -1 || !isValidSkillName(name)) continue;
+          if (!isValidSkillVersion(version)) continue;
+          tags.set(name, [...(tags.get(name) ?? []), version]);
+        }
+        return tags;
+      },
+      (err) => {
+        console.warn(
+          `[skills-handler] Error reading git tags in ${resolvedDir}:`,
+          err
+        );
+        return new Map<string, string[]>();
+      }
+    );
+    return gitTags;
+  }
+
+  /**
+   * Loads a skill as of its `{name}@{version}` git tag. Only SKILL.md is
+   * read up front; other files are read from git when requested.
+   */
+  async function readGitVersion(
+    dirName: string,
+    version: string
+  ): Promise<LoadedVersion | null> {
+    const label = `${dirName}@${version}`;
+    const tag = `refs/tags/${label}`;
+
+    try {
+      // ls-tree reads pathspecs and prints paths relative to the skills
+      // directory, which may be a subfolder of the repository
+      const skillPath = `${dirName}/`;
+      const listing = await git([
+        "ls-tree",
+        "-r",
+        "-z",
+        "--long",
+        tag,
+        "--",
+        skillPath,
+      ]);
+
+      const isPublished = await createFileFilter(dirName);
+      const blobs = new Map<string, { hash: string; size: number }>();
+      let totalSize = 0;
+
+      for (const line of listing.toString("utf-8").split("\0")) {
+        const match = /^(\d+) blob ([0-9a-f]+) +(\d+)\t(.+)$/s.exec(line);
+        if (!match) continue;
+        const [, mode, hash, sizeText, fullPath] = match;
+        const filePath = fullPath!.slice(skillPath.length);
+        const size = Number(sizeText);
+
+        if (!isValidFilePath(filePath)) continue;
+        if (!isPublishedPath(isPublished, filePath)) continue;
+        if (mode === "120000") {
+          warn(
+            "SYMLINK_REJECTED",
+            label,
+            filePath,
+            `Skipping symlink ${label}/${filePath}: symlinks are not read from git`
+          );
+          continue;
+        }
+        if (size > maxFileSize) {
+          warn(
+            "FILE_TOO_LARGE",
+            label,
+            filePath,
+            `Skipping ${label}/${filePath}: ${size} bytes is over the ${maxFileSize} byte limit`
+          );
+          continue;
+        }
+        if (blobs.size >= maxFiles) {
+          warn(
+            "TOO_MANY_FILES",
+            label,
+            filePath,
+            `Skill ${label} has more than ${maxFiles} files, skipping ${filePath} and later files`
+          );
+          break;
+        }
+        if (totalSize + size > maxSkillSize) {
+          warn(
+            "SKILL_TOO_LARGE",
+            label,
+            filePath,
+            `Skill ${label} is over the ${maxSkillSize} byte limit, skipping ${filePath} and later files`
+          );
+          break;
+        }
+
+        totalSize += size;
+        blobs.set(filePath, { hash: hash!, size });
+      }
+
+      const skillMd = blobs.get("SKILL.md");
+      if (!skillMd) return null;
+
+      const content = (
+        await git(["cat-file", "blob", skillMd.hash], skillMd.size + 1)
+      ).toString("utf-8");
+      const { valid, diagnostics, frontmatter, body } = validateSkill(content, {
+        directoryName: dirName,
+      });
+      if (!valid || !frontmatter) {
+        const [error] = diagnostics.filter((d) => d.severity === "error");
+        onWarning({
+          type: "INVALID_SKILL",
+          skillName: label,
+          filePath: "SKILL.md",
+          message: `Skipping skill ${label}: SKILL.md:${error?.line ?? 1}: ${error?.message}`,
+          diagnostics,
+          timestamp: Date.now(),
+        });
+        return null;
+      }
+
+      const committedAt = Number(
+        (await git(["log", "-1", "--format=%ct", tag])).toString("utf-8")
+      );
+
+      return {
+        skill: {
+          ...frontmatter,
+          body: (body ?? "").trim(),
+          files: [
+            "SKILL.md",
+            ...Array.from(blobs.keys()).filter((file) => file !== "SKILL.md"),
+          ],
+          etag: await sha256Hex(content),
+          lastModified: new Date(committedAt * 1000),
+          ...(frontmatter.metadata?.visibility === "private" && {
+            visibility: "private" as const,
+          }),
+          version,
+        },
+        blobs,
+      };
+    } catch (err) {
+      console.warn(`[skills-handler] Error reading ${label} from git:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Loads an earlier version of a skill once, or returns null when the
+   * skill has no such version.
+   */
+  async function loadVersion(
+    skillName: string,
+    version: string
+  ): Promise<LoadedVersion | null> {
+    if (!versionSource) return null;
+    if (!isValidSkillName(skillName) || !isValidSkillVersion(version)) {
+      return null;
+    }
+
+    const dirName = await findSkillDirectory(skillName);
+    const latest = dirName === null ? undefined : skillsCache?.get(dirName);
+    if (
+      dirName === null ||
+      !latest?.versions?.includes(version) ||
+      latest.version === version
+    ) {
+      return null;
+    }
 
-          if (!validateSkillFrontmatter(parsed.data)) {
-            console.warn(
-              `[skills-handler] Invalid frontmatter in ${skillMdPath}, skipping`
+    const key = `${dirName}@${version}`;
+    let pending = versionCache.get(key);
+    if (!pending) {
+      pending =
+        versionSource === "git-tags"
+          ? readGitVersion(dirName, version)
+          : readSkillDirectory(dirName, version).then((skill) =>
+              skill ? { skill } : null
             );
+      versionCache.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Reads a published file of an earlier version of a skill.
+   */
+  async function readVersionFile(
+    skillName: string,
+    filePath: string,
+    version: string
+  ): Promise<Uint8Array | null> {
+    const loaded = await loadVersion(skillName, version);
+    if (!loaded?.skill.files.includes(filePath)) return null;
+
+    try {
+      if (loaded.blobs) {
+        const blob = loaded.blobs.get(filePath);
+        return blob ? await git(["cat-file", "blob", blob.hash], blob.size + 1) : null;
+      }
+
+      const dirName = await findSkillDirectory(skillName);
+      if (dirName === null) return null;
+      const fullPath = resolveSkillFile(dirName, filePath, version);
+      if (!fullPath || !(await isSafeToRead(dirName, fullPath))) return null;
+      return await fs.readFile(fullPath);
+    } catch {
+      return null;
+    }
+  }
+
+  // Watch mode: reload only the skills whose directories change, debounced
+  // so a burst of writes (e.g. an editor save) triggers a single reload
+  const changedSkills = new Set<string>();
+  let reloadTimer: ReturnType<typeof setTimeout> | null = null;
+  const watchers: ReturnType<typeof watch>[] = [];
+
+  function handleWatchEvent(dirName: string | null | undefined): void {
+    if (!dirName) return;
+
+    // The root ignore file affects every skill
+    if (dirName === IGNORE_FILE) {
+      for (const name of skillsCache?.keys() ?? []) {
+        changedSkills.add(name);
+      }
+    } else {
+      changedSkills.add(dirName);
+    }
+
+    if (reloadTimer) clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => {
+      reloadTimer = null;
+      reloadChangedSkills().catch((err) => {
+        console.error(`[skills-handler] Error reloading skills:`, err);
+      });
+    }, WATCH_DEBOUNCE_MS);
+    reloadTimer.unref?.();
+  }
+
+  function startWatching(): void {
+    const addWatcher = (
+      dir: string,
+      recursive: boolean,
+      listener: (filename: string | null) => void
+    ) => {
+      const watcher = watch(dir, { recursive }, (_event, filename) =>
+        listener(filename ? filename.toString() : null)
+      );
+      watcher.on("error", (err) => {
+        console.warn(`[skills-handler] Error watching ${dir}:`, err);
+      });
+      watcher.unref();
+      watchers.push(watcher);
+    };
+
+    try {
+      // The first path segment identifies the changed skill
+      addWatcher(resolvedDir, true, (filename) =>
+        handleWatchEvent(filename?.split(/[\\/]/)[0])
+      );
+    } catch {
+      // Recursive watching is unavailable on some platforms (e.g. Linux
+      // before Node.js 20); watch the root and each skill's top level.
+      // Changes in nested directories need refresh() or a TTL rescan.
+      addWatcher(resolvedDir, false, (filename) => handleWatchEvent(filename));
+      for (const entry of readdirSync(resolvedDir, { withFileTypes: true })) {
+        if (!entry.isDirectory()) continue;
+        addWatcher(path.join(resolvedDir, entry.name), false, () =>
+          handleWatchEvent(entry.name)
+        );
+      }
+    }
+  }
+
+  /**
+   * Reads an ignore file, returning no rules when it doesn't exist.
+   */
+  async function readIgnoreFile(filePath: string): Promise<IgnoreRule[]> {
+    try {
+      return parseIgnoreFile(await fs.readFile(filePath, "utf-8"));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Creates a predicate deciding whether a path within a skill is
+   * published, reading the root and skill ignore files.
+   */
+  async function createFileFilter(
+    dirName: string
+  ): Promise<(relativePath: string, isDirectory: boolean) => boolean> {
+    return createIgnoreFilter({
+      dirName,
+      rootRules: await readIgnoreFile(path.join(resolvedDir, IGNORE_FILE)),
+      skillRules: await readIgnoreFile(
+        path.join(resolvedDir, dirName, IGNORE_FILE)
+      ),
+      includeRules,
+      excludeRules,
+    });
+  }
+
+  /**
+   * Collects the published files in a skill directory, starting with
+   * SKILL.md. Files that violate the symlink policy or a size limit are
+   * left out and reported through onWarning.
+   */
+  async function collectFiles(
+    dirName: string,
+    skillRoot: string,
+    skillMdSize: number,
+    isPublished: (relativePath: string, isDirectory: boolean) => boolean
+  ): Promise<string[]> {
+    const files = ["SKILL.md"];
+    let totalSize = skillMdSize;
+    let limitReached = false;
+    // Real paths of visited directories, to avoid symlink cycles
+    const visited = new Set([skillRoot]);
+
+    async function walk(dir: string, prefix: string): Promise<void> {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      // Sort so the same files are left out on every scan
+      entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+      for (const entry of entries) {
+        if (limitReached) return;
+
+        const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (relativePath === "SKILL.md") continue;
+        const fullPath = path.join(dir, entry.name);
+
+        let isDirectory = entry.isDirectory();
+        let isFile = entry.isFile();
+
+        if (entry.isSymbolicLink()) {
+          // Check ignore rules first so ignored symlinks aren't reported
+          if (
+            !isPublished(relativePath, true) &&
+            !isPublished(relativePath, false)
+          ) {
             continue;
           }
+          const target = await checkSymlink(
+            fullPath,
+            skillRoot,
+            dirName,
+            relativePath
+          );
+          if (!target) continue;
+          isDirectory = target.isDirectory();
+          isFile = target.isFile();
+        }
 
-          // Collect all files in the skill directory
-          const files = await collectFiles(skillDir, "");
-
-          skills.push({
-            name: parsed.data.name,
-            description: parsed.data.description,
-            body: parsed.content.trim(),
-            files,
-          });
-        } catch (err) {
-          // Skip directories without SKILL.md
-          if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
-            console.warn(
-              `[skills-handler] Error reading ${skillMdPath}:`,
-              err
+        if (isDirectory) {
+          if (!isPublished(relativePath, true)) continue;
+          if (symlinks !== "reject") {
+            const realPath = await fs.realpath(fullPath);
+            if (visited.has(realPath)) continue;
+            visited.add(realPath);
+          }
+          await walk(fullPath, relativePath);
+        } else if (isFile) {
+          if (!isPublished(relativePath, false)) continue;
+
+          const { size } = await fs.stat(fullPath);
+          if (size > maxFileSize) {
+            warn(
+              "FILE_TOO_LARGE",
+              dirName,
+              relativePath,
+              `Skipping ${dirName}/${relativePath}: ${size} bytes is over the ${maxFileSize} byte limit`
+            );
+            continue;
+          }
+          if (files.length >= maxFiles) {
+            warn(
+              "TOO_MANY_FILES",
+              dirName,
+              relativePath,
+              `Skill ${dirName} has more than ${maxFiles} files, skipping ${relativePath} and later files`
             );
+            limitReached = true;
+            return;
           }
+          if (totalSize + size > maxSkillSize) {
+            warn(
+              "SKILL_TOO_LARGE",
+              dirName,
+              relativePath,
+              `Skill ${dirName} is over the ${maxSkillSize} byte limit, skipping ${relativePath} and later files`
+            );
+            limitReached = true;
+            return;
+          }
+
+          totalSize += size;
+          files.push(relativePath);
         }
       }
-    } catch (err) {
-      console.error(`[skills-handler] Error scanning skills directory:`, err);
     }
 
-    skillsCache = skills;
-    lastScan = now;
-    return skills;
+    await walk(skillRoot, "");
+    return files;
   }
 
-  async function collectFiles(
-    dir: string,
-    prefix: string
-  ): Promise<string[]> {
-    const files: string[] = [];
-    const entries = await fs.readdir(dir, { withFileTypes: true });
+  /**
+   * Returns the directory a skill is served from, or null when no skill
+   * has that name.
+   */
+  async function findSkillDirectory(skillName: string): Promise<string | null> {
+    await scanSkills();
+    return skillDirs.get(skillName) ?? null;
+  }
+
+  /**
+   * Returns whether a file is listed in the skill's published files, so
+   * ignored files can't be fetched directly either.
+   */
+  async function isPublishedFile(
+    dirName: string,
+    filePath: string
+  ): Promise<boolean> {
+    await scanSkills();
+    return skillsCache?.get(dirName)?.files.includes(filePath) ?? false;
+  }
 
-    for (const entry of entries) {
-      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+  /**
+   * Returns whether a path is inside a directory (or is the directory).
+   */
+  function isWithin(dir: string, target: string): boolean {
+    const relative = path.relative(dir, target);
+    return (
+      relative !== ".." &&
+      !relative.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relative)
+    );
+  }
+
+  /**
+   * Resolves a file path within a skill, or null if it is not servable.
+   */
+  function resolveSkillFile(
+    skillName: string,
+    filePath: string,
+    version?: string
+  ): string | null {
+    if (!isValidSkillName(skillName)) return null;
+    if (!isValidFilePath(filePath)) return null;
+
+    const skillDirPath =
+      version === undefined
+        ? path.join(resolvedDir, skillName)
+        : path.join(resolvedDir, skillName, VERSIONS_DIR, version);
+    const fullPath = path.join(skillDirPath, filePath);
+
+    // Security: ensure path is within skill directory
+    const normalizedPath = path.normalize(fullPath);
+    if (!isWithin(skillDirPath, normalizedPath)) {
+      return null;
+    }
+
+    return normalizedPath;
+  }
+
+  /**
+   * Checks that a published file still satisfies the symlink policy and
+   * size limit when it is read, since it may have been replaced since the
+   * last scan.
+   */
+  async function isSafeToRead(
+    skillName: string,
+    fullPath: string
+  ): Promise<boolean> {
+    try {
+      const skillDir = path.join(resolvedDir, skillName);
+      const realPath = await fs.realpath(fullPath);
+      const { size } = await fs.stat(realPath);
+      if (size > maxFileSize) return false;
 
-      if (entry.isDirectory()) {
-        const subFiles = await collectFiles(
-          path.join(dir, entry.name),
-          relativePath
+      if (symlinks === "reject") {
+        // No path component below the skills directory may be a symlink
+        const expected = path.join(
+          await fs.realpath(resolvedDir),
+          path.relative(resolvedDir, fullPath)
         );
-        files.push(...subFiles);
-      } else if (entry.isFile()) {
-        files.push(relativePath);
+        return realPath === expected;
       }
+
+      return isWithin(await fs.realpath(skillDir), realPath);
+    } catch {
+      return false;
     }
+  }
 
-    return files;
+  if (watchMode) {
+    startWatching();
   }
 
   return {
@@ -205,24 +1135,122 @@ export async function createFileProvider(
       return scanSkills();
     },
 
-    async getSkillFile(skillName: string, filePath: string) {
-      if (!isValidSkillName(skillName)) return null;
-      if (!isValidFilePath(filePath)) return null;
+    async refresh() {
+      changedSkills.clear();
+      await rescan();
+    },
+
+    async getSkillVersion(skillName: string, version: string) {
+      return (await loadVersion(skillName, version))?.skill ?? null;
+    },
+
+    close() {
+      if (reloadTimer) clearTimeout(reloadTimer);
+      reloadTimer = null;
+      for (const watcher of watchers.splice(0)) {
+        watcher.close();
+      }
+    },
 
-      // Don't serve SKILL.md through this method (handler reconstructs it)
-      if (filePath === "SKILL.md") return null;
+    async getSkillFile(skillName: string, filePath: string, version?: string) {
+      if (version !== undefined) {
+        const bytes = await readVersionFile(skillName, filePath, version);
+        return bytes && toFileContent(bytes, filePath);
+      }
 
-      const fullPath = path.join(resolvedDir, skillName, filePath);
+      const dirName = await findSkillDirectory(skillName);
+      if (dirName === null) return null;
+      const fullPath = resolveSkillFile(dirName, filePath);
+      if (!fullPath) return null;
+      if (!(await isPublishedFile(dirName, filePath))) return null;
+      if (!(await isSafeToRead(dirName, fullPath))) return null;
 
-      // Security: ensure path is within skill directory
-      const normalizedPath = path.normalize(fullPath);
-      const skillDirPath = path.join(resolvedDir, skillName);
-      if (!normalizedPath.startsWith(skillDirPath)) {
+      try {
+        return toFileContent(await fs.readFile(fullPath), filePath);
+      } catch {
         return null;
       }
+    },
+
+    async *getSkillArchiveEntries(
+      skillName: string,
+      version?: string
+    ): AsyncGenerator<SkillArchiveEntry> {
+      if (version !== undefined) {
+        const loaded = await loadVersion(skillName, version);
+        for (const filePath of loaded?.skill.files ?? []) {
+          const data = await readVersionFile(skillName, filePath, version);
+          if (data) {
+            yield { path: filePath, data, lastModified: loaded!.skill.lastModified };
+          }
+        }
+        return;
+      }
+
+      // Read raw bytes straight from disk, keeping permission bits so
+      // scripts stay executable after extraction
+      const dirName = await findSkillDirectory(skillName);
+      const skill = dirName === null ? undefined : skillsCache?.get(dirName);
+      if (dirName === null || !skill) return;
+
+      for (const filePath of skill.files) {
+        const fullPath = resolveSkillFile(dirName, filePath);
+        if (!fullPath) continue;
+        if (!(await isSafeToRead(dirName, fullPath))) continue;
+
+        try {
+          const stat = await fs.stat(fullPath);
+          yield {
+            path: filePath,
+            data: await fs.readFile(fullPath),
+            mode: stat.mode & 0o777,
+            lastModified: stat.mtime,
+          };
+        } catch {
+          // File removed since the last scan
+        }
+      }
+    },
+
+    async getSkillFileStat(
+      skillName: string,
+      filePath: string,
+      version?: string
+    ): Promise<SkillFileStat | null> {
+      // Earlier versions are validated by their digest or git blob id
+      if (version !== undefined) {
+        const loaded = await loadVersion(skillName, version);
+        if (!loaded?.skill.files.includes(filePath)) return null;
+        const digest = loaded.skill.digests?.[filePath];
+        const etag = digest?.replace(/^sha256:/, "") ?? loaded.blobs?.get(filePath)?.hash;
+        return { etag, digest, lastModified: loaded.skill.lastModified };
+      }
+
+      const dirName = await findSkillDirectory(skillName);
+      if (dirName === null) return null;
+      const fullPath = resolveSkillFile(dirName, filePath);
+      if (!fullPath) return null;
+      if (!(await isPublishedFile(dirName, filePath))) return null;
+      if (!(await isSafeToRead(dirName, fullPath))) return null;
 
       try {
-        return await fs.readFile(fullPath, "utf-8");
+        const stat = await fs.stat(fullPath);
+        if (!stat.isFile()) return null;
+
+        const { hash, binary } = await hashFile(fullPath, stat);
+        const contentType = getContentType(filePath);
+
+        return {
+          etag: hash,
+          lastModified: stat.mtime,
+          digest: `sha256:${hash}`,
+          size: stat.size,
+          // Mirrors the binary fallback in getSkillFile
+          contentType:
+            binary && isTextContentType(contentType)
+              ? "application/octet-stream"
+              : contentType,
+        };
       } catch {
         return null;
       }
@@ -230,6 +1258,89 @@ export async function createFileProvider(
   };
 }
 
+/**
+ * Compares two versions, returning a negative number when `a` is older.
+ * Numeric parts compare as numbers, so `1.10.0` is newer than `1.9.0`, a
+ * leading `v` is ignored, and a prerelease (`1.0.0-beta`) is older than
+ * its release.
+ */
+function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => {
+    const [release = "", prerelease] = version
+      .replace(/^v/i, "")
+      .split("+")[0]!
+      .split(/-(.*)/s);
+    return { release: release.split(/[._]/), prerelease };
+  };
+  const comparePart = (x: string, y: string) =>
+    /^\d+$/.test(x) && /^\d+$/.test(y)
+      ? Number(x) - Number(y)
+      : x < y
+        ? -1
+        : x > y
+          ? 1
+          : 0;
+
+  const left = parse(a);
+  const right = parse(b);
+  const length = Math.max(left.release.length, right.release.length);
+  for (let i = 0; i < length; i++) {
+    const x = left.release[i];
+    const y = right.release[i];
+    if (x === undefined || y === undefined) return x === undefined ? -1 : 1;
+    const order = comparePart(x, y);
+    if (order !== 0) return order;
+  }
+
+  if (left.prerelease === right.prerelease) return 0;
+  if (left.prerelease === undefined) return 1;
+  if (right.prerelease === undefined) return -1;
+  return comparePart(left.prerelease, right.prerelease);
+}
+
+/**
+ * Converts file bytes read from disk or git to provider file content:
+ * text for text types, bytes otherwise.
+ */
+function toFileContent(bytes: Uint8Array, filePath: string): SkillFileContent {
+  const contentType = getContentType(filePath);
+
+  // Serve binary assets as raw bytes
+  if (!isTextContentType(contentType)) {
+    return bytes;
+  }
+
+  // Unknown extensions default to text; fall back to an opaque binary type
+  // when the content contains NUL bytes
+  if (isBinaryContent(bytes)) {
+    return { data: bytes, contentType: "application/octet-stream" };
+  }
+
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Returns whether a file and every directory above it are published.
+ */
+function isPublishedPath(
+  isPublished: (relativePath: string, isDirectory: boolean) => boolean,
+  filePath: string
+): boolean {
+  const segments = filePath.split("/");
+  for (let i = 1; i < segments.length; i++) {
+    if (!isPublished(segments.slice(0, i).join("/"), true)) return false;
+  }
+  return isPublished(filePath, false);
+}
+
+/**
+ * Detects binary content by looking for NUL bytes near the start of a file,
+ * the same heuristic git uses.
+ */
+function isBinaryContent(bytes: Uint8Array): boolean {
+  return bytes.subarray(0, 8000).includes(0);
+}
+
 /**
  * Creates a composite provider that merges skills from multiple providers.
  * Later providers take precedence for skills with the same name.
@@ -259,7 +1370,18 @@ export function createCompositeProvider(
       return Array.from(skillMap.values());
     },
 
-    async getSkillFile(skillName: string, filePath: string) {
+    async getSkillVersion(skillName: string, version: string) {
+      const owner = await findOwner(skillName);
+      return (await owner?.getSkillVersion?.(skillName, version)) ?? null;
+    },
+
+    async getSkillFile(skillName: string, filePath: string, version?: string) {
+      // Versions belong to the provider serving the skill
+      if (version !== undefined) {
+        const owner = await findOwner(skillName);
+        return (await owner?.getSkillFile(skillName, filePath, version)) ?? null;
+      }
+
       // Try providers in reverse order (last takes precedence)
       for (let i = providers.length - 1; i >= 0; i--) {
         const content = await providers[i]!.getSkillFile(skillName, filePath);
@@ -269,5 +1391,242 @@ export function createCompositeProvider(
       }
       return null;
     },
+
+    async getSkillFileStat(
+      skillName: string,
+      filePath: string,
+      version?: string
+    ) {
+      // Resolve against the same provider getSkillFile would use
+      const owner = version === undefined ? undefined : await findOwner(skillName);
+      const candidates =
+        version === undefined ? [...providers].reverse() : owner ? [owner] : [];
+
+      for (const provider of candidates) {
+        if (provider.getSkillFileStat) {
+          const stat = await provider.getSkillFileStat(
+            skillName,
+            filePath,
+            version
+          );
+          if (stat !== null) {
+            return stat;
+          }
+        } else {
+          // This provider may serve the file but has no validators. Report
+          // them as unknown rather than reading the file here, so the
+          // handler reads it once through getSkillFile.
+          return {};
+        }
+      }
+      return null;
+    },
+  };
+
+  /**
+   * Returns the provider whose skill `getSkills` lists under a name: the
+   * last one that has it.
+   */
+  async function findOwner(skillName: string): Promise<SkillProvider | undefined> {
+    for (let i = providers.length - 1; i >= 0; i--) {
+      const skills = await providers[i]!.getSkills();
+      if (skills.some((skill) => skill.name === skillName)) {
+        return providers[i];
+      }
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Creates a provider that republishes skills from another site's
+ * well-known skills endpoint.
+ *
+ * Skills are fetched through `createSkillsClient` and refreshed after
+ * `cacheTtl`. Stale skills are served while a refresh runs in the
+ * background, and kept when the upstream is unavailable.
+ *
+ * @example
+ * ```typescript
+ * const provider = createCompositeProvider([
+ *   await createFileProvider("./skills"),
+ *   createRemoteProvider("https://example.com", {
+ *     prefix: "example-",
+ *     filter: ["pdf-processing"],
+ *   }),
+ * ]);
+ * ```
+ */
+export function createRemoteProvider(
+  url: string,
+  options: RemoteProviderOptions = {}
+): RemoteSkillProvider {
+  const {
+    cacheTtl = DEFAULT_CACHE_TTL,
+    staleWhileRevalidate = DEFAULT_STALE_WHILE_REVALIDATE,
+    timeout = DEFAULT_REMOTE_TIMEOUT,
+    prefix = "",
+    filter,
+    onError = (error: Error) => {
+      console.warn(`[skills-handler] ${error.message}`);
+    },
+    fetch: fetchImpl = (input, init) => globalThis.fetch(input, init),
+    ...clientOptions
+  } = options;
+
+  const client = createSkillsClient(url, {
+    ...clientOptions,
+    fetch: (input, init) =>
+      fetchImpl(input, { ...init, signal: AbortSignal.timeout(timeout) }),
+  });
+
+  // Skills keyed by their served (prefixed) name
+  let skillsCache: Map<string, RemoteSkill> | null = null;
+  let lastFetch = 0;
+  let pendingFetch: Promise<Map<string, RemoteSkill>> | null = null;
+
+  function isIncluded(entry: SkillIndexEntry): boolean {
+    if (!filter) return true;
+    return Array.isArray(filter) ? filter.includes(entry.name) : filter(entry);
+  }
+
+  /**
+   * Fetches the upstream index and every included skill. Skills that fail
+   * to load keep their previous version, if any.
+   */
+  async function fetchSkills(): Promise<Map<string, RemoteSkill>> {
+    const index = await client.getIndex();
+    const entries = index.skills.filter(isIncluded);
+
+    const loaded = await Promise.all(
+      entries.map(async (entry): Promise<RemoteSkill | null> => {
+        const name = `${prefix}${entry.name}`;
+        try {
+          const skill = await client.getSkill(entry.name);
+          const digests = skill.digests && { ...skill.digests };
+          // A renamed skill's SKILL.md is reconstructed, so the upstream
+          // digest no longer describes it
+          if (prefix && digests) delete digests["SKILL.md"];
+
+          return {
+            upstreamName: entry.name,
+            skill: { ...skill, name, ...(digests && { digests }) },
+          };
+        } catch (error) {
+          onError(
+            new Error(
+              `Failed to load remote skill ${entry.name}: ${error instanceof Error ? error.message : String(error)}`,
+              { cause: error }
+            )
+          );
+          return skillsCache?.get(name) ?? null;
+        }
+      })
+    );
+
+    const next = new Map<string, RemoteSkill>();
+    for (const remote of loaded) {
+      if (remote) next.set(remote.skill.name, remote);
+    }
+
+    skillsCache = next;
+    lastFetch = Date.now();
+    return next;
+  }
+
+  function refreshSkills(): Promise<Map<string, RemoteSkill>> {
+    // Share one refresh between concurrent requests
+    pendingFetch ??= fetchSkills().finally(() => {
+      pendingFetch = null;
+    });
+    return pendingFetch;
+  }
+
+  async function getRemoteSkills(): Promise<Map<string, RemoteSkill>> {
+    const age = Date.now() - lastFetch;
+    if (skillsCache && age < cacheTtl) {
+      return skillsCache;
+    }
+
+    if (skillsCache && age < cacheTtl + staleWhileRevalidate) {
+      refreshSkills().catch((error) => {
+        onError(
+          new Error(
+            `Failed to refresh remote skills from ${client.indexUrl}: ${error instanceof Error ? error.message : String(error)}`,
+            { cause: error }
+          )
+        );
+      });
+      return skillsCache;
+    }
+
+    return refreshSkills();
+  }
+
+  /**
+   * Finds a served skill that lists a file.
+   */
+  async function findSkillWithFile(
+    skillName: string,
+    filePath: string
+  ): Promise<RemoteSkill | null> {
+    const remote = (await getRemoteSkills()).get(skillName);
+    if (!remote || !remote.skill.files.includes(filePath)) return null;
+    return remote;
+  }
+
+  return {
+    async getSkills() {
+      const skills = await getRemoteSkills();
+      return Array.from(skills.values(), (remote) => remote.skill);
+    },
+
+    async refresh() {
+      await refreshSkills();
+    },
+
+    async getSkillFile(skillName: string, filePath: string) {
+      const remote = await findSkillWithFile(skillName, filePath);
+      if (!remote) return null;
+
+      // Renamed skills serve a reconstructed SKILL.md
+      if (prefix && filePath === "SKILL.md") return null;
+
+      try {
+        return await client.getSkillFile(remote.upstreamName, filePath);
+      } catch (error) {
+        if (error instanceof SkillsClientError && error.code === "NOT_FOUND") {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async getSkillFileStat(skillName: string, filePath: string) {
+      const remote = await findSkillWithFile(skillName, filePath);
+      if (!remote) return null;
+
+      // The index digest identifies the file without fetching it
+      const digest = remote.skill.digests?.[filePath];
+      const hash = digest?.match(/^sha256:([0-9a-f]{64})$/)?.[1];
+      return hash ? { etag: hash, digest } : {};
+    },
   };
 }
+
+/**
+ * A skill served by a remote provider, with its name upstream.
+ */
+interface RemoteSkill {
+  skill: Skill;
+  upstreamName: string;
+}
+
+/**
+ * An earlier version of a file-based skill. Versions read from git carry
+ * the blob of each file, read when requested.
+ */
+interface LoadedVersion {
+  skill: Skill;
+  blobs?: Map<string, { hash: string; size: number }>;
+}
@@ -0,0 +1,254 @@
+import type {
+  PullSkillsOptions,
+  PullSkillsResult,
+  PulledSkill,
+  SkillIndexEntry,
+  SkillsClient,
+  SkillsLockfile,
+} from "../types.js";
+import { createSkillsClient } from "./client.js";
+import { sha256Digest, skillDigest } from "./hash.js";
+import { validateSkill } from "./validate.js";
+
+/**
+ * Name of the file recording pulled skills, in the skills directory.
+ */
+export const LOCKFILE = "skills-lock.json";
+
+/**
+ * Reads the lockfile of a skills directory, or an empty one when the
+ * directory has none.
+ */
+export async function readLockfile(directory: string): Promise<SkillsLockfile> {
+  const fs = await import("fs/promises");
+  const path = await import("path");
+
+  let source: string;
+  try {
+    source = await fs.readFile(path.join(directory, LOCKFILE), "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return { version: 1, skills: {} };
+    }
+    throw err;
+  }
+
+  const lockfile = JSON.parse(source) as SkillsLockfile;
+  if (
+    lockfile?.version !== 1 ||
+    typeof lockfile.skills !== "object" ||
+    lockfile.skills === null
+  ) {
+    throw new Error(`Unsupported ${LOCKFILE} format in ${directory}`);
+  }
+  return lockfile;
+}
+
+/**
+ * Downloads skills from a well-known skills endpoint into a directory,
+ * in the layout `createFileProvider` reads.
+ *
+ * Each skill is validated before it's written, and its source and digests
+ * are recorded in `skills-lock.json` so later pulls with `update` only
+ * download skills that changed. Skills are written to a temporary
+ * directory first, so a failed download never leaves a partial skill.
+ *
+ * @example
+ * ```typescript
+ * const { skills } = await pullSkills("https://example.com", "./skills", {
+ *   names: ["pdf-processing"],
+ * });
+ * ```
+ */
+export async function pullSkills(
+  origin: string,
+  directory: string,
+  options: PullSkillsOptions = {}
+): Promise<PullSkillsResult> {
+  const fs = await import("fs/promises");
+  const path = await import("path");
+
+  const { names, update = false, force = false, ...clientOptions } = options;
+  const client = createSkillsClient(origin, clientOptions);
+  const resolvedDir = path.resolve(directory);
+
+  const lockfile = await readLockfile(resolvedDir);
+  const index = await client.getIndex();
+
+  /**
+   * Downloads, validates and writes one skill, updating the lockfile.
+   */
+  async function pullSkill(entry: SkillIndexEntry): Promise<PulledSkill> {
+    const { name } = entry;
+    const locked = lockfile.skills[name];
+    const skillDir = path.join(resolvedDir, name);
+    const exists = await fs.stat(skillDir).then(
+      (stat) => stat.isDirectory(),
+      () => false
+    );
+
+    if (exists && locked && !update) {
+      return {
+        name,
+        status: "skipped",
+        message: "Already pulled",
+        digest: locked.digest,
+        diagnostics: [],
+      };
+    }
+    if (exists && !locked && !force) {
+      return {
+        name,
+        status: "skipped",
+        message: "Directory exists and wasn't pulled from a remote",
+        diagnostics: [],
+      };
+    }
+
+    // The index digest identifies the skill without downloading it
+    if (exists && locked && entry.digest && entry.digest === locked.digest) {
+      return {
+        name,
+        status: "unchanged",
+        digest: locked.digest,
+        diagnostics: [],
+      };
+    }
+
+    let files: Map<string, Uint8Array>;
+    try {
+      files = await downloadSkill(client, entry);
+    } catch (error) {
+      return {
+        name,
+        status: "failed",
+        message: error instanceof Error ? error.message : String(error),
+        diagnostics: [],
+      };
+    }
+
+    const skillMd = new TextDecoder().decode(files.get("SKILL.md"));
+    const { valid, diagnostics } = validateSkill(skillMd, {
+      directoryName: name,
+      files: entry.files,
+    });
+    if (!valid) {
+      return {
+        name,
+        status: "failed",
+        message: "Skill failed validation",
+        diagnostics,
+      };
+    }
+
+    const fileDigests: Record<string, string> = {};
+    for (const [filePath, data] of files) {
+      fileDigests[filePath] = await sha256Digest(data);
+    }
+    const digest = await skillDigest(fileDigests);
+
+    if (exists && locked?.digest === digest) {
+      return { name, status: "unchanged", digest, diagnostics };
+    }
+
+    await writeSkill(skillDir, files);
+    lockfile.skills[name] = {
+      source: client.indexUrl,
+      digest,
+      files: fileDigests,
+      pulledAt: new Date().toISOString(),
+    };
+
+    return {
+      name,
+      status: exists ? "updated" : "added",
+      digest,
+      diagnostics,
+    };
+  }
+
+  /**
+   * Writes a skill's files to a temporary directory, then replaces the
+   * skill directory with it.
+   */
+  async function writeSkill(
+    skillDir: string,
+    files: Map<string, Uint8Array>
+  ): Promise<void> {
+    await fs.mkdir(resolvedDir, { recursive: true });
+    // Dot-prefixed, so the file provider never loads it
+    const tempDir = await fs.mkdtemp(
+      path.join(resolvedDir, `.${path.basename(skillDir)}-`)
+    );
+
+    try {
+      for (const [filePath, data] of files) {
+        const outputPath = path.join(tempDir, filePath);
+        if (!outputPath.startsWith(tempDir + path.sep)) {
+          throw new Error(`Refusing to write outside ${skillDir}: ${filePath}`);
+        }
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+        await fs.writeFile(outputPath, data);
+      }
+
+      await fs.rm(skillDir, { recursive: true, force: true });
+      await fs.rename(tempDir, skillDir);
+    } catch (error) {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      throw error;
+    }
+  }
+
+  const entries = new Map(index.skills.map((entry) => [entry.name, entry]));
+  const results: PulledSkill[] = [];
+
+  for (const name of names ?? Array.from(entries.keys())) {
+    const entry = entries.get(name);
+    if (!entry) {
+      results.push({
+        name,
+        status: "failed",
+        message: `Skill not found in ${client.indexUrl}`,
+        diagnostics: [],
+      });
+      continue;
+    }
+    results.push(await pullSkill(entry));
+  }
+
+  await fs.mkdir(resolvedDir, { recursive: true });
+  await fs.writeFile(
+    path.join(resolvedDir, LOCKFILE),
+    `${JSON.stringify(sortLockfile(lockfile), null, 2)}\n`
+  );
+
+  return { source: client.indexUrl, skills: results };
+}
+
+/**
+ * Downloads every file of a skill, checking each against the index digests.
+ */
+async function downloadSkill(
+  client: SkillsClient,
+  entry: SkillIndexEntry
+): Promise<Map<string, Uint8Array>> {
+  const files = new Map<string, Uint8Array>();
+  for (const filePath of entry.files) {
+    const { data } = await client.getSkillFile(entry.name, filePath);
+    files.set(filePath, data);
+  }
+  return files;
+}
+
+/**
+ * Sorts lockfile entries by name so the file diffs cleanly.
+ */
+function sortLockfile(lockfile: SkillsLockfile): SkillsLockfile {
+  const names = Object.keys(lockfile.skills).sort();
+  return {
+    version: 1,
+    skills: Object.fromEntries(
+      names.map((name) => [name, lockfile.skills[name]!])
+    ),
+  };
+}
@@ -0,0 +1,87 @@
+import type {
+  RateLimitOptions,
+  RateLimitResult,
+  RateLimitStore,
+} from "../types.js";
+
+/** Number of requests between sweeps of idle buckets */
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Creates an in-memory token bucket store. Buckets are kept per process,
+ * so each server instance or edge isolate limits clients separately; use
+ * a shared store to limit across instances.
+ *
+ * @example
+ * ```typescript
+ * const handler = createSkillsHandler(provider, {
+ *   rateLimit: { limit: 100, window: 60000, store: createMemoryRateLimitStore() },
+ * });
+ * ```
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updated: number }>();
+  let requests = 0;
+
+  /**
+   * Drops buckets that have refilled completely, since a new bucket
+   * behaves the same.
+   */
+  function sweep(now: number, limit: number, window: number): void {
+    const rate = limit / window;
+    for (const [key, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updated) * rate >= limit) {
+        buckets.delete(key);
+      }
+    }
+  }
+
+  return {
+    consume(key, { limit, window, now }): RateLimitResult {
+      if (++requests % SWEEP_INTERVAL === 0) {
+        sweep(now, limit, window);
+      }
+
+      const rate = limit / window;
+      const bucket = buckets.get(key);
+      let tokens = bucket
+        ? Math.min(limit, bucket.tokens + (now - bucket.updated) * rate)
+        : limit;
+
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+      buckets.set(key, { tokens, updated: now });
+
+      return {
+        allowed,
+        remaining: Math.floor(tokens),
+        retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+        reset: Math.ceil((limit - tokens) / rate),
+      };
+    },
+  };
+}
+
+/**
+ * Resolves the rate limit key for a request, or null when the request has
+ * no IP or key header (or the key function returns null). A shared bucket
+ * for those requests could be emptied by a single client, so they aren't
+ * limited.
+ */
+export async function getRateLimitKey(
+  request: Request,
+  key: NonNullable<RateLimitOptions["key"]>
+): Promise<string | null> {
+  if (typeof key === "function") {
+    return key(request);
+  }
+
+  if (key === "ip") {
+    // Clients can send any X-Forwarded-For entries; only the last one,
+    // appended by the proxy in front of the handler, can be trusted
+    const forwarded = request.headers.get("X-Forwarded-For")?.split(",").pop();
+    return forwarded?.trim() || null;
+  }
+
+  return request.headers.get(key.header)?.trim() || null;
+}
@@ -0,0 +1,112 @@
+import * as path from "path";
+import type { SkillDiagnostic, SkillDiagnosticCode } from "../types.js";
+
+/**
+ * Validation results for one skill directory.
+ */
+export interface SkillReport {
+  /** The skill directory name */
+  name: string;
+  /** Path to the skill directory */
+  path: string;
+  /** The name declared in the skill's frontmatter, when valid */
+  skillName?: string;
+  /** The earlier version validated, for `versions/{version}` directories */
+  version?: string;
+  valid: boolean;
+  diagnostics: SkillDiagnostic[];
+}
+
+/**
+ * Options for `toSarif`.
+ */
+export interface SarifOptions {
+  /** Report warnings at the `error` level, as `validate --strict` fails on them */
+  strict?: boolean;
+  /** Directory locations are made relative to */
+  cwd?: string;
+  /** Version of the tool reported in the log */
+  toolVersion?: string;
+}
+
+/**
+ * Short descriptions of each diagnostic code, shown as SARIF rule names.
+ */
+const RULE_DESCRIPTIONS: Record<SkillDiagnosticCode, string> = {
+  MISSING_FRONTMATTER: "SKILL.md must start with YAML frontmatter",
+  INVALID_YAML: "Frontmatter must be valid YAML",
+  INVALID_FRONTMATTER: "Frontmatter must be a mapping of fields",
+  MISSING_NAME: "Frontmatter must include a name",
+  INVALID_NAME: "Skill names must be 1-64 lowercase letters, numbers and hyphens",
+  NAME_MISMATCH: "Skill names should match their directory name",
+  MISSING_DESCRIPTION: "Frontmatter must include a non-empty description",
+  DESCRIPTION_TOO_LONG: "Descriptions must be at most 1024 characters",
+  INVALID_FIELD: "Optional frontmatter fields must have the right type",
+  COMPATIBILITY_TOO_LONG: "Compatibility must be at most 500 characters",
+  UNKNOWN_FIELD: "Custom frontmatter fields belong under metadata",
+  MISSING_SKILL_MD: "Skills must include a SKILL.md file",
+  INVALID_FILE_PATH: "File paths must be valid relative paths",
+  BROKEN_LINK: "Relative links must point to files in the skill",
+  UNREFERENCED_FILE: "Supporting files should be referenced from SKILL.md",
+  BODY_TOO_LONG: "SKILL.md bodies should stay within the token budget",
+  DUPLICATE_NAME: "Skill names must be unique across directories",
+};
+
+/**
+ * Converts validation reports into a SARIF 2.1.0 log for code scanning.
+ */
+export function toSarif(
+  reports: SkillReport[],
+  options: SarifOptions = {}
+): object {
+  const { strict = false, cwd = process.cwd(), toolVersion } = options;
+  const codes = Array.from(
+    new Set(reports.flatMap((report) => report.diagnostics.map((d) => d.code)))
+  ).sort();
+
+  const results = reports.flatMap((report) =>
+    report.diagnostics.map((diagnostic) => {
+      // Locations are repository-relative paths with forward slashes
+      const filePath = path.join(report.path, diagnostic.file ?? "SKILL.md");
+      const uri = path.relative(cwd, filePath).split(path.sep).join("/");
+
+      return {
+        ruleId: diagnostic.code,
+        ruleIndex: codes.indexOf(diagnostic.code),
+        level: strict ? "error" : diagnostic.severity,
+        message: { text: diagnostic.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri },
+              ...(diagnostic.line && {
+                region: { startLine: diagnostic.line },
+              }),
+            },
+          },
+        ],
+      };
+    })
+  );
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "skills-handler",
+            ...(toolVersion && { version: toolVersion }),
+            informationUri: "https://github.com/vercel/skills-handler",
+            rules: codes.map((code) => ({
+              id: code,
+              shortDescription: { text: RULE_DESCRIPTIONS[code] },
+            })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+}
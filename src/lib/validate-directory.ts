@@ -0,0 +1,221 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { isValidSkillName, isValidSkillVersion } from "../types.js";
+import type { SkillDiagnostic } from "../types.js";
+import { validateSkill } from "./validate.js";
+import { IGNORE_FILE, createIgnoreFilter, parseIgnoreFile } from "./ignore.js";
+import type { SkillReport } from "./sarif.js";
+
+const VERSIONS_DIR = "versions";
+
+/**
+ * Options for `validateSkillsDirectory`.
+ */
+export interface ValidateSkillsDirectoryOptions {
+  /** Warn when a SKILL.md body exceeds this many tokens */
+  tokenBudget?: number;
+}
+
+/**
+ * Validates every skill directory in a skills directory, including its
+ * links and files. Earlier versions in a skill's `versions/{version}/`
+ * directories are validated as skills of their own, as
+ * `createFileProvider` serves them with `versions: "directories"`.
+ */
+export async function validateSkillsDirectory(
+  directory: string,
+  options: ValidateSkillsDirectoryOptions = {}
+): Promise<SkillReport[]> {
+  const { tokenBudget } = options;
+  const entries = await fs.readdir(directory, { withFileTypes: true });
+  const reports: SkillReport[] = [];
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    const versions = await listVersionDirectories(directory, entry.name);
+    reports.push(
+      await validateSkillDirectory(directory, entry.name, {
+        tokenBudget,
+        versioned: versions.length > 0,
+      })
+    );
+    for (const version of versions) {
+      reports.push(
+        await validateSkillDirectory(directory, entry.name, {
+          tokenBudget,
+          version,
+        })
+      );
+    }
+  }
+
+  reportDuplicateNames(reports);
+  return reports;
+}
+
+/**
+ * Validates a single skill directory, or one of its earlier versions.
+ */
+async function validateSkillDirectory(
+  skillsDir: string,
+  dirName: string,
+  options: { tokenBudget?: number; versioned?: boolean; version?: string }
+): Promise<SkillReport> {
+  const { tokenBudget, versioned = false, version } = options;
+  const skillDir =
+    version === undefined
+      ? path.join(skillsDir, dirName)
+      : path.join(skillsDir, dirName, VERSIONS_DIR, version);
+  const report = (
+    diagnostics: SkillDiagnostic[],
+    skillName?: string
+  ): SkillReport => ({
+    name: version === undefined ? dirName : `${dirName}@${version}`,
+    path: skillDir,
+    skillName,
+    ...(version !== undefined && { version }),
+    valid: diagnostics.every((d) => d.severity !== "error"),
+    diagnostics,
+  });
+
+  if (!isValidSkillName(dirName)) {
+    return report([
+      {
+        code: "INVALID_NAME",
+        severity: "error",
+        message: `Invalid skill directory name "${dirName}": must be 1-64 lowercase letters, numbers and hyphens, without leading, trailing or consecutive hyphens`,
+      },
+    ]);
+  }
+
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(skillDir, "SKILL.md"), "utf-8");
+  } catch {
+    return report([
+      {
+        code: "MISSING_SKILL_MD",
+        severity: "error",
+        message: "Missing SKILL.md",
+      },
+    ]);
+  }
+
+  const { diagnostics, frontmatter } = validateSkill(content, {
+    directoryName: dirName,
+    files: await listSkillFiles(skillsDir, dirName, skillDir, versioned),
+    tokenBudget,
+  });
+
+  return report(diagnostics, frontmatter?.name);
+}
+
+/**
+ * Lists the version directories in a skill's `versions` directory: those
+ * named as a valid version that hold a SKILL.md.
+ */
+async function listVersionDirectories(
+  skillsDir: string,
+  dirName: string
+): Promise<string[]> {
+  const versionsDir = path.join(skillsDir, dirName, VERSIONS_DIR);
+  let entries;
+  try {
+    entries = await fs.readdir(versionsDir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const versions: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !isValidSkillVersion(entry.name)) continue;
+    try {
+      await fs.access(path.join(versionsDir, entry.name, "SKILL.md"));
+      versions.push(entry.name);
+    } catch {
+      // Not a version of the skill
+    }
+  }
+
+  return versions.sort();
+}
+
+/**
+ * Lists the published files in a skill directory, applying the same
+ * `.skillsignore` rules as `createFileProvider`. The `versions` directory
+ * of a versioned skill isn't part of its latest revision.
+ */
+async function listSkillFiles(
+  skillsDir: string,
+  dirName: string,
+  skillDir: string,
+  versioned: boolean
+): Promise<string[]> {
+  const readRules = async (filePath: string) => {
+    try {
+      return parseIgnoreFile(await fs.readFile(filePath, "utf-8"));
+    } catch {
+      return [];
+    }
+  };
+
+  const isPublished = createIgnoreFilter({
+    dirName,
+    rootRules: await readRules(path.join(skillsDir, IGNORE_FILE)),
+    skillRules: await readRules(path.join(skillsDir, dirName, IGNORE_FILE)),
+    includeRules: null,
+    excludeRules: [],
+  });
+
+  const files: string[] = [];
+  const walk = async (dir: string, prefix: string) => {
+    for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+      const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        if (versioned && relativePath === VERSIONS_DIR) continue;
+        if (isPublished(relativePath, true)) {
+          await walk(path.join(dir, entry.name), relativePath);
+        }
+      } else if (entry.isFile() && isPublished(relativePath, false)) {
+        files.push(relativePath);
+      }
+    }
+  };
+  await walk(skillDir, "");
+
+  return files.sort();
+}
+
+/**
+ * Reports skills whose frontmatter names collide, since only one of them
+ * can be served. Earlier versions share the name of their skill.
+ */
+function reportDuplicateNames(reports: SkillReport[]): void {
+  const byName = new Map<string, SkillReport[]>();
+  for (const report of reports) {
+    if (!report.skillName || report.version !== undefined) continue;
+    byName.set(report.skillName, [
+      ...(byName.get(report.skillName) ?? []),
+      report,
+    ]);
+  }
+
+  for (const [skillName, duplicates] of byName) {
+    if (duplicates.length < 2) continue;
+
+    for (const report of duplicates) {
+      const others = duplicates
+        .filter((other) => other !== report)
+        .map((other) => other.name)
+        .join(", ");
+      report.diagnostics.push({
+        code: "DUPLICATE_NAME",
+        severity: "error",
+        message: `Skill name "${skillName}" is also used by ${others}`,
+        file: "SKILL.md",
+        field: "name",
+      });
+    }
+  }
+}
@@ -0,0 +1,445 @@
+import { LineCounter, isMap, isScalar, parseDocument } from "yaml";
+import type {
+  Skill,
+  SkillDiagnostic,
+  SkillFrontmatter,
+  SkillValidationResult,
+} from "../types.js";
+import {
+  checkSkillFrontmatter,
+  checkSkillFrontmatterExtras,
+  isValidFilePath,
+  isValidSkillVersion,
+  pickSkillFrontmatter,
+  readSkillFrontmatter,
+} from "../types.js";
+
+/**
+ * Options for `validateSkill`.
+ */
+export interface ValidateSkillOptions {
+  /**
+   * The directory the skill was loaded from. A warning is reported when
+   * the skill name doesn't match it.
+   */
+  directoryName?: string;
+
+  /**
+   * The files in the skill, relative to its directory. When set, links in
+   * the body must point to one of them, files the body never mentions are
+   * reported, and each path is checked with `isValidFilePath`.
+   */
+  files?: string[];
+
+  /**
+   * Warn when the body is estimated to exceed this many tokens, at roughly
+   * four characters per token.
+   */
+  tokenBudget?: number;
+}
+
+/** Rough characters-per-token ratio used to estimate body size */
+const CHARS_PER_TOKEN = 4;
+
+/** Fields of Skill that aren't part of the frontmatter */
+const SKILL_OBJECT_FIELDS = new Set([
+  "body",
+  "files",
+  "etag",
+  "lastModified",
+  "digests",
+  "visibility",
+  "version",
+  "versions",
+]);
+
+/**
+ * Thrown when a skill fails validation, e.g. by `createStaticProvider`.
+ */
+export class SkillValidationError extends Error {
+  readonly diagnostics: SkillDiagnostic[];
+
+  constructor(skillName: string | undefined, diagnostics: SkillDiagnostic[]) {
+    const errors = diagnostics.filter((d) => d.severity === "error");
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : "";
+    const prefix = skillName ? `${skillName}: ` : "";
+    super(`${prefix}${errors[0]?.message ?? "Invalid skill"}${more}`);
+    this.name = "SkillValidationError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Validates a skill against the Agent Skills specification.
+ *
+ * Accepts either the source of a SKILL.md file, whose diagnostics include
+ * line numbers and whose parsed frontmatter and body are returned, or a
+ * `Skill` object such as those passed to `createStaticProvider`.
+ *
+ * @example
+ * ```typescript
+ * const { valid, diagnostics } = validateSkill(source, {
+ *   directoryName: "pdf-processing",
+ * });
+ * for (const d of diagnostics) {
+ *   console.log(`${d.file}:${d.line ?? 1} ${d.severity} ${d.code} ${d.message}`);
+ * }
+ * ```
+ */
+export function validateSkill(
+  input: string | Skill,
+  options: ValidateSkillOptions = {}
+): SkillValidationResult {
+  const result =
+    typeof input === "string"
+      ? validateSkillMd(input)
+      : validateSkillObject(input);
+
+  const name =
+    typeof input === "string" ? result.frontmatter?.name : input.name;
+  if (
+    options.directoryName !== undefined &&
+    typeof name === "string" &&
+    name !== options.directoryName
+  ) {
+    result.diagnostics.push({
+      code: "NAME_MISMATCH",
+      severity: "warning",
+      message: `Skill name "${name}" doesn't match directory name "${options.directoryName}"`,
+      file: "SKILL.md",
+      line: result.nameLine,
+      field: "name",
+    });
+  }
+
+  const body = typeof input === "string" ? result.body : input.body;
+  if (body !== undefined) {
+    const license =
+      typeof input === "string"
+        ? result.frontmatter?.license
+        : pickSkillFrontmatter(input).license;
+    result.diagnostics.push(
+      ...lintBody(body, result.bodyLine, license, options)
+    );
+  }
+
+  return {
+    valid: result.diagnostics.every((d) => d.severity !== "error"),
+    diagnostics: result.diagnostics,
+    ...(result.frontmatter && { frontmatter: result.frontmatter }),
+    ...(result.body !== undefined && { body: result.body }),
+  };
+}
+
+interface PartialResult {
+  diagnostics: SkillDiagnostic[];
+  frontmatter?: SkillFrontmatter;
+  body?: string;
+  nameLine?: number;
+  /** Line of SKILL.md the body starts on */
+  bodyLine?: number;
+}
+
+/**
+ * Parses and validates SKILL.md source.
+ */
+function validateSkillMd(source: string): PartialResult {
+  const file = "SKILL.md";
+
+  const open = /^\uFEFF?---[ \t]*\r?\n/.exec(source);
+  const rest = open ? source.slice(open[0].length) : "";
+  const close = open ? /^---[ \t]*(?:\r?\n|$)/m.exec(rest) : null;
+
+  if (!open || !close) {
+    return {
+      diagnostics: [
+        {
+          code: "MISSING_FRONTMATTER",
+          severity: "error",
+          message: open
+            ? "Frontmatter is not closed with a --- line"
+            : "SKILL.md must start with YAML frontmatter between --- lines",
+          file,
+          line: 1,
+        },
+      ],
+    };
+  }
+
+  const body = rest.slice(close.index + close[0].length);
+  const bodyLine = source
+    .slice(0, source.length - body.length)
+    .split("\n").length;
+
+  // Line numbers within the YAML are offset by the opening --- line
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(rest.slice(0, close.index), { lineCounter });
+  const lineAt = (offset: number) => lineCounter.linePos(offset).line + 1;
+
+  if (doc.errors.length > 0) {
+    return {
+      diagnostics: doc.errors.map((error) => ({
+        code: "INVALID_YAML" as const,
+        severity: "error" as const,
+        message: `Invalid YAML in frontmatter: ${error.message.split("\n")[0]}`,
+        file,
+        line: lineAt(error.pos[0]),
+      })),
+      body,
+      bodyLine,
+    };
+  }
+
+  // Locate each top-level key so field diagnostics can report a line
+  const fieldLines = new Map<string, number>();
+  if (isMap(doc.contents)) {
+    for (const pair of doc.contents.items) {
+      if (isScalar(pair.key) && pair.key.range) {
+        fieldLines.set(String(pair.key.value), lineAt(pair.key.range[0]));
+      }
+    }
+  }
+
+  // Empty frontmatter parses as null; report its missing fields instead
+  const data: unknown = doc.toJS() ?? {};
+  const diagnostics = checkSkillFrontmatter(data).map((diagnostic) => ({
+    ...diagnostic,
+    file,
+    // Problems with no field of their own point at the opening --- line
+    line: (diagnostic.field && fieldLines.get(diagnostic.field)) || 1,
+  }));
+
+  const valid = diagnostics.every((d) => d.severity !== "error");
+  return {
+    diagnostics,
+    frontmatter: valid
+      ? readSkillFrontmatter(data as Record<string, unknown>)
+      : undefined,
+    body,
+    nameLine: fieldLines.get("name"),
+    bodyLine,
+  };
+}
+
+/**
+ * Validates a skill defined in code.
+ */
+function validateSkillObject(skill: Skill): PartialResult {
+  const { files, visibility, version, versions } = skill;
+  const { extras, ...frontmatter } = Object.fromEntries(
+    Object.entries(skill).filter(([field]) => !SKILL_OBJECT_FIELDS.has(field))
+  );
+  const diagnostics = [
+    ...checkSkillFrontmatter(frontmatter),
+    ...checkSkillFrontmatterExtras(extras),
+  ];
+
+  if (
+    visibility !== undefined &&
+    visibility !== "public" &&
+    visibility !== "private"
+  ) {
+    diagnostics.push({
+      code: "INVALID_FIELD",
+      severity: "error",
+      message: `Invalid visibility "${String(visibility)}": must be "public" or "private"`,
+      field: "visibility",
+    });
+  }
+
+  const versionFields = [
+    ...(version === undefined ? [] : [{ field: "version", value: version }]),
+    ...(versions ?? []).map((value) => ({ field: "versions", value })),
+  ];
+  for (const { field, value } of versionFields) {
+    if (typeof value !== "string" || !isValidSkillVersion(value)) {
+      diagnostics.push({
+        code: "INVALID_FIELD",
+        severity: "error",
+        message: `Invalid version "${String(value)}": must be 1-64 letters, digits, ".", "_", "-" or "+", starting with a letter or digit`,
+        field,
+      });
+    }
+  }
+
+  if (!Array.isArray(files) || !files.includes("SKILL.md")) {
+    diagnostics.push({
+      code: "MISSING_SKILL_MD",
+      severity: "error",
+      message: `Skill ${skill.name} must include SKILL.md in its files`,
+    });
+  }
+
+  for (const filePath of Array.isArray(files) ? files : []) {
+    if (!isValidFilePath(filePath)) {
+      diagnostics.push({
+        code: "INVALID_FILE_PATH",
+        severity: "error",
+        message: `Invalid file path "${filePath}": must be a relative path using forward slashes without "..", "?", "#", "[", "]" or control characters`,
+        file: filePath,
+      });
+    }
+  }
+
+  return { diagnostics };
+}
+
+/**
+ * Checks the body's links, size and references against the options.
+ */
+function lintBody(
+  body: string,
+  bodyLine: number | undefined,
+  license: string | undefined,
+  options: ValidateSkillOptions
+): SkillDiagnostic[] {
+  const diagnostics: SkillDiagnostic[] = [];
+  const { files, tokenBudget } = options;
+
+  if (tokenBudget !== undefined) {
+    const tokens = Math.ceil(body.trim().length / CHARS_PER_TOKEN);
+    if (tokens > tokenBudget) {
+      diagnostics.push({
+        code: "BODY_TOO_LONG",
+        severity: "warning",
+        message: `SKILL.md body is about ${tokens} tokens, over the ${tokenBudget} token budget; move details into referenced files`,
+        file: "SKILL.md",
+        line: bodyLine,
+      });
+    }
+  }
+
+  if (!files) return diagnostics;
+
+  for (const filePath of files) {
+    if (!isValidFilePath(filePath)) {
+      diagnostics.push({
+        code: "INVALID_FILE_PATH",
+        severity: "error",
+        message: `Invalid file path "${filePath}": must be a relative path using forward slashes without "..", "?", "#", "[", "]" or control characters`,
+        file: filePath,
+      });
+    }
+  }
+
+  const fileSet = new Set(files);
+  const linkedDirectories: string[] = [];
+
+  for (const link of findRelativeLinks(body)) {
+    const line = bodyLine !== undefined ? bodyLine + link.line : undefined;
+    const target = resolveLinkTarget(link.target);
+
+    if (target === null) {
+      diagnostics.push({
+        code: "BROKEN_LINK",
+        severity: "error",
+        message: `Link "${link.target}" points outside the skill directory`,
+        file: "SKILL.md",
+        line,
+      });
+    } else if (fileSet.has(target)) {
+      continue;
+    } else if (files.some((filePath) => filePath.startsWith(`${target}/`))) {
+      linkedDirectories.push(`${target}/`);
+    } else if (target !== "") {
+      diagnostics.push({
+        code: "BROKEN_LINK",
+        severity: "error",
+        message: `Link "${link.target}" points to a file that doesn't exist in the skill`,
+        file: "SKILL.md",
+        line,
+      });
+    }
+  }
+
+  // A file counts as referenced when the body (or the license field) names
+  // it anywhere, including in code, or links to a directory containing it
+  for (const filePath of files) {
+    if (filePath === "SKILL.md") continue;
+    if (
+      body.includes(filePath) ||
+      license?.includes(filePath) ||
+      linkedDirectories.some((dir) => filePath.startsWith(dir))
+    ) {
+      continue;
+    }
+    diagnostics.push({
+      code: "UNREFERENCED_FILE",
+      severity: "warning",
+      message: `File "${filePath}" is never referenced from SKILL.md, so agents are unlikely to find it`,
+      file: filePath,
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Finds relative link targets in markdown, with their 0-based line within
+ * the text. Links inside code are ignored.
+ */
+function findRelativeLinks(
+  markdown: string
+): { target: string; line: number }[] {
+  const links: { target: string; line: number }[] = [];
+  const inlineLink = /!?\[[^\]]*\]\(\s*(<[^>]*>|[^\s)]+)[^)]*\)/g;
+  const definition = /^ {0,3}\[[^\]]+\]:\s*(<[^>]*>|\S+)/;
+  let fence: string | null = null;
+
+  markdown.split(/\r?\n/).forEach((text, line) => {
+    const fenceMatch = /^ {0,3}(`{3,}|~{3,})/.exec(text);
+    if (fenceMatch) {
+      const marker = fenceMatch[1]!;
+      if (fence === null) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+      return;
+    }
+    if (fence !== null) return;
+
+    // Drop inline code spans so example links aren't checked
+    const prose = text.replace(/(`+)[\s\S]*?\1/g, "");
+
+    const targets = Array.from(prose.matchAll(inlineLink), (m) => m[1]!);
+    const reference = definition.exec(prose);
+    if (reference) targets.push(reference[1]!);
+
+    for (const target of targets) {
+      const unwrapped = target.replace(/^<|>$/g, "");
+      // Skip URLs, absolute paths and same-page anchors
+      if (/^[a-z][a-z0-9+.-]*:/i.test(unwrapped)) continue;
+      if (unwrapped.startsWith("/") || unwrapped.startsWith("#")) continue;
+      links.push({ target: unwrapped, line });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Resolves a relative link to a path within the skill directory, or null
+ * when it points outside. Directory links resolve without a trailing slash.
+ */
+function resolveLinkTarget(target: string): string | null {
+  let decoded = target.replace(/[?#].*$/, "");
+  try {
+    decoded = decodeURI(decoded);
+  } catch {
+    // Keep malformed escapes as written
+  }
+
+  const segments: string[] = [];
+  for (const segment of decoded.split("/")) {
+    if (segment === "" || segment === ".") continue;
+    if (segment === "..") {
+      if (segments.length === 0) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+
+  return segments.join("/");
+}
@@ -7,11 +7,24 @@
  */
 export const SKILL_NAME_PATTERN = /^(?!-)(?!.*--)[a-z0-9-]{1,64}(?<!-)$/;
 
+/**
+ * Skill version pattern, e.g. `1.2.0` or `2024-06-01`.
+ * - 1-64 characters
+ * - Letters, digits, dots, underscores, hyphens and plus signs
+ * - Must start with a letter or digit
+ */
+export const SKILL_VERSION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._+-]{0,63}$/;
+
 /**
  * Maximum length for skill description.
  */
 export const MAX_DESCRIPTION_LENGTH = 1024;
 
+/**
+ * Maximum length for the compatibility field.
+ */
+export const MAX_COMPATIBILITY_LENGTH = 500;
+
 /**
  * Represents the frontmatter metadata of a SKILL.md file.
  */
@@ -20,6 +33,20 @@ export interface SkillFrontmatter {
   name: string;
   /** Brief description of the skill and when to use it (max 1024 chars) */
   description: string;
+  /** License name or reference to a bundled license file */
+  license?: string;
+  /** Environment requirements such as tools or network access (max 500 chars) */
+  compatibility?: string;
+  /** Space-delimited list of tools the skill is pre-approved to use */
+  "allowed-tools"?: string;
+  /** Arbitrary string key-value pairs for additional metadata */
+  metadata?: Record<string, string>;
+  /**
+   * Top-level frontmatter fields outside the specification, keyed by field
+   * name. Values must be JSON-serialisable and keys must not collide with
+   * the fields above. They are written back into a reconstructed SKILL.md.
+   */
+  extras?: Record<string, unknown>;
 }
 
 /**
@@ -30,6 +57,99 @@ export interface Skill extends SkillFrontmatter {
   body: string;
   /** List of all files in the skill directory, relative to skill root */
   files: string[];
+  /**
+   * Optional version identifier for the provider's SKILL.md, used as its
+   * ETag when served with `serveOriginalSkillMd`. A reconstructed SKILL.md
+   * is always validated by a hash of the served bytes.
+   */
+  etag?: string;
+  /** Optional last modification time, used for the Last-Modified header */
+  lastModified?: Date;
+  /**
+   * Optional content digests keyed by file path, in `sha256:<hex>` form.
+   * Published in the discovery index so clients can verify cached files.
+   */
+  digests?: Record<string, string>;
+  /**
+   * Who the skill is served to. Private skills are only listed and served
+   * to requests that `authorize` allows. File-based skills set this with
+   * `visibility: private` in their frontmatter `metadata`.
+   * @default "public"
+   */
+  visibility?: "public" | "private";
+  /**
+   * Version of this revision of the skill. A specific version is served at
+   * `/{name}@{version}/SKILL.md` when the provider can load it.
+   */
+  version?: string;
+  /**
+   * Every version available at `/{name}@{version}/`, newest first. Set on
+   * the latest revision, which `getSkills` returns.
+   */
+  versions?: string[];
+}
+
+/**
+ * The result of an `authorize` check: `true` to allow the request, `false`
+ * when the caller is known but not allowed, or `"unauthenticated"` when
+ * the caller needs to authenticate.
+ */
+export type SkillAuthorization = boolean | "unauthenticated";
+
+/**
+ * Raw content of a file within a skill: text, bytes, or a byte stream.
+ */
+export type SkillFileData = string | Uint8Array | ReadableStream<Uint8Array>;
+
+/**
+ * A file within a skill, with an explicit content type.
+ */
+export interface SkillFile {
+  /** The file content */
+  data: SkillFileData;
+  /**
+   * The MIME type to serve the file with.
+   * Defaults to a type derived from the file extension.
+   */
+  contentType?: string;
+}
+
+/**
+ * File content returned by a provider: either raw data or a file descriptor.
+ */
+export type SkillFileContent = SkillFileData | SkillFile;
+
+/**
+ * A file included in a skill archive.
+ */
+export interface SkillArchiveEntry {
+  /** File path relative to the skill directory */
+  path: string;
+  /** Raw file content */
+  data: Uint8Array;
+  /** Unix permission bits (defaults to 0o644) */
+  mode?: number;
+  /** Last modification time */
+  lastModified?: Date;
+}
+
+/**
+ * Cache validators for a file within a skill.
+ */
+export interface SkillFileStat {
+  /** Version identifier for the file content, used as its ETag */
+  etag?: string;
+  /** Last modification time of the file */
+  lastModified?: Date;
+  /** Content digest of the file in `sha256:<hex>` form */
+  digest?: string;
+  /**
+   * File size in bytes. Together with `contentType`, lets the handler
+   * answer HEAD requests without reading the file.
+   */
+  size?: number;
+  /** MIME type of the file, when it differs from the extension's type */
+  contentType?: string;
 }
 
 /**
@@ -42,6 +162,19 @@ export interface SkillIndexEntry {
   description: string;
   /** Array of all files in the skill directory */
   files: string[];
+  /**
+   * Digest covering every file in the skill, in `sha256:<hex>` form.
+   * Present when a digest is known for every file.
+   */
+  digest?: string;
+  /** Content digests keyed by file path, in `sha256:<hex>` form */
+  digests?: Record<string, string>;
+  /** URL of a `.tar.gz` archive of the skill, relative to index.json */
+  archive?: string;
+  /** Version of the latest revision, served at the unversioned URLs */
+  version?: string;
+  /** Versions available at `{name}@{version}/` URLs, newest first */
+  versions?: string[];
 }
 
 /**
@@ -64,12 +197,320 @@ export interface SkillProvider {
    * Returns the content of a specific file within a skill.
    * @param skillName The skill identifier
    * @param filePath The file path relative to the skill directory
-   * @returns The file content as a string, or null if not found
+   * @param version A version returned by `getSkillVersion`, or undefined
+   *   for the latest revision
+   * @returns The file content (text, bytes, a stream, or a file descriptor
+   *   with a content type), or null if not found
    */
   getSkillFile(
     skillName: string,
-    filePath: string
-  ): Promise<string | null> | string | null;
+    filePath: string,
+    version?: string
+  ): Promise<SkillFileContent | null> | SkillFileContent | null;
+
+  /**
+   * Optionally returns cache validators for a file without reading it.
+   * When implemented, the handler can answer conditional requests with
+   * 304 Not Modified without loading or hashing the file content.
+   * @param skillName The skill identifier
+   * @param filePath The file path relative to the skill directory
+   * @param version A version returned by `getSkillVersion`, or undefined
+   *   for the latest revision
+   * @returns The file's validators, or null if not found
+   */
+  getSkillFileStat?(
+    skillName: string,
+    filePath: string,
+    version?: string
+  ): Promise<SkillFileStat | null> | SkillFileStat | null;
+
+  /**
+   * Optionally yields the raw content of every file in a skill for archive
+   * downloads. When omitted, the handler reads each file through
+   * `getSkillFile`. SKILL.md entries are ignored in favor of the SKILL.md
+   * the handler serves.
+   * @param skillName The skill identifier
+   * @param version A version returned by `getSkillVersion`, or undefined
+   *   for the latest revision
+   */
+  getSkillArchiveEntries?(
+    skillName: string,
+    version?: string
+  ): AsyncIterable<SkillArchiveEntry>;
+
+  /**
+   * Optionally returns an earlier version of a skill, served at
+   * `/{name}@{version}/`. Its files are read by passing the version to
+   * the file methods. Without it, only the latest revision is served.
+   * @param skillName The skill identifier
+   * @param version The requested version
+   * @returns The skill at that version, or null if there is no such version
+   */
+  getSkillVersion?(
+    skillName: string,
+    version: string
+  ): Promise<Skill | null> | Skill | null;
+}
+
+/**
+ * Options for `createFileProvider`.
+ */
+export interface FileProviderOptions {
+  /**
+   * Watch the skills directory and reload only the skills that change.
+   * @default false
+   */
+  watch?: boolean;
+
+  /**
+   * Milliseconds between full rescans of the skills directory. Use
+   * `Infinity` to never rescan (e.g. immutable deployments) or 0 to rescan
+   * on every request.
+   * @default 60000, or Infinity in watch mode
+   */
+  cacheTtl?: number;
+
+  /**
+   * Glob patterns (gitignore syntax, relative to each skill directory) of
+   * files to publish. When set, other files are left out. SKILL.md is
+   * always published.
+   */
+  include?: string[];
+
+  /**
+   * Glob patterns (gitignore syntax, relative to each skill directory) of
+   * files to leave out, in addition to the built-in defaults and any
+   * `.skillsignore` files.
+   */
+  exclude?: string[];
+
+  /**
+   * How symbolic links inside the skills directory are handled.
+   * - `"reject"`: symlinks are skipped and reported
+   * - `"within-skill"`: symlinks are followed when their target stays
+   *   inside the skill directory (or, for symlinked skill directories,
+   *   inside the skills directory)
+   * @default "reject"
+   */
+  symlinks?: "reject" | "within-skill";
+
+  /**
+   * Maximum size in bytes of a single file. Larger files are not published.
+   * @default 10485760 (10 MiB)
+   */
+  maxFileSize?: number;
+
+  /**
+   * Maximum total size in bytes of a skill's files. Files beyond the limit
+   * are not published.
+   * @default 52428800 (50 MiB)
+   */
+  maxSkillSize?: number;
+
+  /**
+   * Maximum number of files in a skill, including SKILL.md. Files beyond
+   * the limit are not published.
+   * @default 1000
+   */
+  maxFiles?: number;
+
+  /**
+   * Where earlier versions of each skill are read from:
+   * - `"directories"`: `{skill}/versions/{version}/`, each a complete skill
+   *   directory. The `versions` directory isn't published with the latest
+   *   revision.
+   * - `"git-tags"`: git tags named `{skill}@{version}` in the repository
+   *   containing the skills directory
+   *
+   * The latest revision's version is read from `metadata.version` in its
+   * frontmatter.
+   * @default false
+   */
+  versions?: "directories" | "git-tags" | false;
+
+  /**
+   * Called when a skill is added, changed or removed after the initial scan.
+   */
+  onChange?: (event: SkillChangeEvent) => void;
+
+  /**
+   * Called when a skill fails validation or a file is left out because it
+   * violates the symlink policy or a size limit. Defaults to logging with
+   * `console.warn`.
+   */
+  onWarning?: (warning: SkillWarning) => void;
+}
+
+/**
+ * Emitted by the file provider when a skill changes on disk.
+ */
+export interface SkillChangeEvent {
+  type: "SKILL_ADDED" | "SKILL_CHANGED" | "SKILL_REMOVED";
+  skillName: string;
+  timestamp: number;
+}
+
+/**
+ * Reported by the file provider when a file is left out for safety.
+ */
+export interface SkillWarning {
+  type:
+    | "SYMLINK_REJECTED"
+    | "FILE_TOO_LARGE"
+    | "SKILL_TOO_LARGE"
+    | "TOO_MANY_FILES"
+    | "INVALID_SKILL";
+  /** The skill directory name */
+  skillName: string;
+  /** The offending path, relative to the skill directory */
+  filePath?: string;
+  message: string;
+  /** Validation diagnostics, for `INVALID_SKILL` */
+  diagnostics?: SkillDiagnostic[];
+  timestamp: number;
+}
+
+/**
+ * A skill provider backed by a directory, with cache control.
+ */
+export interface FileSkillProvider extends SkillProvider {
+  /**
+   * Rescans the skills directory immediately.
+   */
+  refresh(): Promise<void>;
+
+  /**
+   * Stops watching the skills directory.
+   */
+  close(): void;
+}
+
+/**
+ * Options for `createRemoteProvider`.
+ */
+export interface RemoteProviderOptions
+  extends Pick<
+    SkillsClientOptions,
+    "basePath" | "fetch" | "headers" | "verifyDigests" | "onWarning"
+  > {
+  /**
+   * Milliseconds the upstream skills are used before they are refreshed.
+   * Upstream responses are also cached for their `Cache-Control` max-age.
+   * @default 60000
+   */
+  cacheTtl?: number;
+
+  /**
+   * Milliseconds after `cacheTtl` during which stale skills are still
+   * served while they are refreshed in the background. Later requests
+   * wait for the refresh.
+   * @default 300000
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * Milliseconds before an upstream request is aborted.
+   * @default 10000
+   */
+  timeout?: number;
+
+  /**
+   * Prefix added to upstream skill names, e.g. `"acme-"` to serve
+   * `pdf-processing` as `acme-pdf-processing`.
+   */
+  prefix?: string;
+
+  /**
+   * Upstream skills to republish, as a list of names or a predicate on
+   * their index entries. Defaults to every skill.
+   */
+  filter?: string[] | ((skill: SkillIndexEntry) => boolean);
+
+  /**
+   * Called when a background refresh or an upstream skill fails. Stale
+   * skills keep being served. Defaults to logging with `console.warn`.
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A skill provider backed by another site's well-known skills endpoint.
+ */
+export interface RemoteSkillProvider extends SkillProvider {
+  /**
+   * Fetches the upstream skills immediately.
+   */
+  refresh(): Promise<void>;
+}
+
+/**
+ * The state of a client's token bucket after a request.
+ */
+export interface RateLimitResult {
+  /** Whether the request may proceed */
+  allowed: boolean;
+  /** Requests the client can still make right away */
+  remaining: number;
+  /** Milliseconds until the next request is allowed (0 when allowed) */
+  retryAfter: number;
+  /** Milliseconds until the bucket is full again */
+  reset: number;
+}
+
+/**
+ * Stores token buckets for rate limiting. Implementations backed by shared
+ * storage such as Redis should update a bucket atomically.
+ */
+export interface RateLimitStore {
+  /**
+   * Takes one token from the bucket for a key, refilling it at `limit`
+   * tokens per `window` milliseconds up to `limit` tokens.
+   */
+  consume(
+    key: string,
+    options: { limit: number; window: number; now: number }
+  ): Promise<RateLimitResult> | RateLimitResult;
+}
+
+/**
+ * Rate limiting options for the skills handler.
+ */
+export interface RateLimitOptions {
+  /**
+   * Requests a client can make in a burst. The bucket refills at this many
+   * requests per `window`.
+   * @default 60
+   */
+  limit?: number;
+
+  /**
+   * Milliseconds it takes to refill `limit` requests.
+   * @default 60000
+   */
+  window?: number;
+
+  /**
+   * Identifies the client a request counts against:
+   * - `"ip"`: the last `X-Forwarded-For` entry, appended by the proxy in
+   *   front of the handler
+   * - `{ header }`: the value of a request header set by a trusted proxy,
+   *   e.g. `CF-Connecting-IP`, or an API key
+   * - a function returning a key, or null to not limit the request
+   *
+   * Requests without an IP or the header aren't limited, and a warning is
+   * logged the first time one arrives.
+   * @default "ip"
+   */
+  key?:
+    | "ip"
+    | { header: string }
+    | ((request: Request) => string | null | Promise<string | null>);
+
+  /**
+   * Where token buckets are kept.
+   * @default createMemoryRateLimitStore()
+   */
+  store?: RateLimitStore;
 }
 
 /**
@@ -96,16 +537,298 @@ export interface SkillsHandlerConfig {
 
   /**
    * CORS origin configuration.
-   * Set to "*" for open access, or specify allowed origins.
+   * Set to "*" for open access, or specify allowed origins. Allowed origins
+   * may use `*` to match subdomains (e.g. "https://*.example.com"), or be
+   * given as a predicate. The request's Origin is reflected when allowed.
    * Set to false to disable CORS headers.
    * @default "*"
    */
-  cors?: string | string[] | false;
+  cors?: string | string[] | ((origin: string) => boolean) | false;
+
+  /**
+   * How long browsers may cache CORS preflight responses, in seconds.
+   * @default 86400
+   */
+  corsMaxAge?: number;
+
+  /**
+   * Serve SKILL.md exactly as returned by the provider's
+   * `getSkillFile(name, "SKILL.md")`, preserving the author's formatting,
+   * comments and frontmatter order. Falls back to reconstructing SKILL.md
+   * from the skill when the provider returns null (e.g. static skills).
+   * @default false
+   */
+  serveOriginalSkillMd?: boolean;
+
+  /**
+   * Serve `/{name}.tar.gz` archives containing every file of a skill, and
+   * advertise them in index.json so clients can install a skill in one
+   * request.
+   * @default false
+   */
+  archives?: boolean;
+
+  /**
+   * Decides whether a request may access private skills. Called once per
+   * request without a skill to authenticate the caller, then with each
+   * private skill the request touches (every private skill for index.json,
+   * the requested skill for other routes). Public skills never call it.
+   * Private skills are not served when `authorize` isn't set.
+   *
+   * Responses that depend on it are sent with a `private` Cache-Control.
+   */
+  authorize?: (
+    request: Request,
+    skill?: Skill
+  ) => SkillAuthorization | Promise<SkillAuthorization>;
+
+  /**
+   * Respond to requests for private skills the caller can't access with
+   * 404, as for skills that don't exist, so private skill names aren't
+   * revealed. When false, 401 (unauthenticated) or 403 (forbidden) is
+   * returned instead.
+   * @default true
+   */
+  hidePrivateSkills?: boolean;
+
+  /**
+   * The `WWW-Authenticate` header sent with 401 responses.
+   * @default "Bearer"
+   */
+  wwwAuthenticate?: string;
+
+  /**
+   * Limit how often each client can make requests, using a token bucket.
+   * Throttled requests receive 429 with `Retry-After`, and every limited
+   * response carries `RateLimit-*` headers.
+   * @default false
+   */
+  rateLimit?: RateLimitOptions | false;
+
+  /**
+   * Usage analytics fed with every event the handler emits, in addition
+   * to `onEvent`.
+   */
+  analytics?: SkillsAnalytics;
+
+  /**
+   * Serves `analytics.snapshot()` at `{basePath}/_stats.json` to requests
+   * with `Authorization: Bearer <statsSecret>`. Without it, the route
+   * isn't served.
+   */
+  statsSecret?: string;
+
+  /**
+   * Callback for events (useful for analytics/telemetry). It may be async;
+   * responses are never delayed by it, and errors it throws or rejects
+   * with are logged instead of failing the request.
+   */
+  onEvent?: (event: SkillsEvent) => void | Promise<void>;
+}
+
+/**
+ * Options for `buildStaticSkills`.
+ */
+export interface StaticBuildOptions
+  extends Pick<
+    SkillsHandlerConfig,
+    "basePath" | "cacheControl" | "cors" | "serveOriginalSkillMd" | "archives"
+  > {
+  /**
+   * Write a `_headers` file (Netlify and Cloudflare Pages format) with the
+   * content type, caching, digest and CORS headers the handler would send.
+   * @default false
+   */
+  headers?: boolean;
+
+  /**
+   * Write a `_redirects` file redirecting the base path to index.json and
+   * each skill directory to its SKILL.md, as the handler does.
+   * @default false
+   */
+  redirects?: boolean;
+}
+
+/**
+ * The result of `buildStaticSkills`.
+ */
+export interface StaticBuildResult {
+  /** Number of skills written */
+  skillCount: number;
+  /** Written files, relative to the output directory */
+  files: string[];
+}
+
+/**
+ * Options for `createSkillsClient`.
+ */
+export interface SkillsClientOptions {
+  /**
+   * Base path of the skills endpoint, used when the origin has no path.
+   * @default "/.well-known/skills"
+   */
+  basePath?: string;
+
+  /**
+   * Fetch implementation to use, e.g. to add authentication or to call a
+   * handler directly.
+   * @default globalThis.fetch
+   */
+  fetch?: (input: string, init?: RequestInit) => Promise<Response>;
+
+  /**
+   * Headers sent with every request.
+   */
+  headers?: HeadersInit;
+
+  /**
+   * Check downloaded files against the digests published in index.json.
+   * @default true
+   */
+  verifyDigests?: boolean;
+
+  /**
+   * Maximum number of redirects to follow per request.
+   * @default 5
+   */
+  maxRedirects?: number;
+
+  /**
+   * Called when an index.json entry fails validation and is left out.
+   * Defaults to logging with `console.warn`.
+   */
+  onWarning?: (warning: SkillsClientWarning) => void;
+}
+
+/**
+ * Reported by a skills client when an index.json entry is left out.
+ */
+export interface SkillsClientWarning {
+  type: "INVALID_INDEX_ENTRY";
+  /** URL of the index.json the entry was read from */
+  url: string;
+  /** The entry's name, when it has one */
+  skillName?: string;
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * A file downloaded by a skills client.
+ */
+export interface SkillsClientFile {
+  /** Raw file content */
+  data: Uint8Array;
+  /** MIME type the file was served with */
+  contentType: string;
+}
+
+/**
+ * Reads skills from a well-known skills endpoint.
+ */
+export interface SkillsClient {
+  /** URL of the endpoint's index.json */
+  readonly indexUrl: string;
+
+  /**
+   * Fetches the discovery index. Entries that fail validation are left out.
+   */
+  getIndex(): Promise<SkillIndex>;
+
+  /**
+   * Fetches and parses a skill's SKILL.md.
+   * @param name The skill identifier
+   */
+  getSkill(name: string): Promise<Skill>;
+
+  /**
+   * Fetches a file listed in a skill's `files`.
+   * @param name The skill identifier
+   * @param filePath The file path relative to the skill directory
+   */
+  getSkillFile(name: string, filePath: string): Promise<SkillsClientFile>;
+}
+
+/**
+ * Identifies why a skills client request failed.
+ */
+export type SkillsClientErrorCode =
+  | "NETWORK_ERROR"
+  | "HTTP_ERROR"
+  | "NOT_FOUND"
+  | "TOO_MANY_REDIRECTS"
+  | "INVALID_INDEX"
+  | "INVALID_SKILL"
+  | "DIGEST_MISMATCH";
+
+/**
+ * Options for `pullSkills`.
+ */
+export interface PullSkillsOptions
+  extends Pick<
+    SkillsClientOptions,
+    "basePath" | "fetch" | "headers" | "onWarning"
+  > {
+  /** Names of the skills to pull. Defaults to every skill in the index. */
+  names?: string[];
+
+  /**
+   * Re-download skills that were pulled before when their digest changed.
+   * Without it, previously pulled skills are skipped.
+   * @default false
+   */
+  update?: boolean;
 
   /**
-   * Callback for events (useful for analytics/telemetry).
+   * Overwrite skill directories that weren't pulled from a remote.
+   * @default false
    */
-  onEvent?: (event: SkillsEvent) => void;
+  force?: boolean;
+}
+
+/**
+ * What `pullSkills` did with one skill.
+ */
+export interface PulledSkill {
+  name: string;
+  status: "added" | "updated" | "unchanged" | "skipped" | "failed";
+  /** Explains why a skill was skipped or failed */
+  message?: string;
+  /** Digest covering every file of the pulled skill */
+  digest?: string;
+  /** Validation diagnostics for the downloaded skill */
+  diagnostics: SkillDiagnostic[];
+}
+
+/**
+ * The result of `pullSkills`.
+ */
+export interface PullSkillsResult {
+  /** URL of the index.json the skills were pulled from */
+  source: string;
+  skills: PulledSkill[];
+}
+
+/**
+ * A pulled skill recorded in `skills-lock.json`.
+ */
+export interface SkillsLockEntry {
+  /** URL of the index.json the skill was pulled from */
+  source: string;
+  /** Digest covering every file in the skill, in `sha256:<hex>` form */
+  digest: string;
+  /** Content digests keyed by file path, in `sha256:<hex>` form */
+  files: Record<string, string>;
+  /** When the skill was last downloaded, as an ISO 8601 timestamp */
+  pulledAt: string;
+}
+
+/**
+ * The `skills-lock.json` file recording skills pulled into a directory.
+ */
+export interface SkillsLockfile {
+  version: 1;
+  skills: Record<string, SkillsLockEntry>;
 }
 
 /**
@@ -115,7 +838,13 @@ export type SkillsEventType =
   | "INDEX_REQUESTED"
   | "SKILL_REQUESTED"
   | "FILE_REQUESTED"
+  | "ARCHIVE_REQUESTED"
   | "NOT_FOUND"
+  | "ACCESS_DENIED"
+  | "INVALID_REQUEST"
+  | "REDIRECTED"
+  | "RATE_LIMITED"
+  | "REQUEST_COMPLETED"
   | "ERROR";
 
 /**
@@ -125,6 +854,8 @@ export interface SkillsEventBase {
   type: SkillsEventType;
   timestamp: number;
   path: string;
+  /** HTTP method of the request, e.g. "GET" or "HEAD" */
+  method: string;
 }
 
 /**
@@ -141,6 +872,8 @@ export interface IndexRequestedEvent extends SkillsEventBase {
 export interface SkillRequestedEvent extends SkillsEventBase {
   type: "SKILL_REQUESTED";
   skillName: string;
+  /** The requested version, for `{name}@{version}` URLs */
+  version?: string;
 }
 
 /**
@@ -150,6 +883,18 @@ export interface FileRequestedEvent extends SkillsEventBase {
   type: "FILE_REQUESTED";
   skillName: string;
   filePath: string;
+  /** The requested version, for `{name}@{version}` URLs */
+  version?: string;
+}
+
+/**
+ * Archive request event.
+ */
+export interface ArchiveRequestedEvent extends SkillsEventBase {
+  type: "ARCHIVE_REQUESTED";
+  skillName: string;
+  /** The requested version, for `{name}@{version}` URLs */
+  version?: string;
 }
 
 /**
@@ -161,6 +906,81 @@ export interface NotFoundEvent extends SkillsEventBase {
   filePath?: string;
 }
 
+/**
+ * Event for a private skill request that `authorize` denied. Denials
+ * answered with 404 (see `hidePrivateSkills`) are reported as well.
+ */
+export interface AccessDeniedEvent extends SkillsEventBase {
+  type: "ACCESS_DENIED";
+  skillName: string;
+  filePath?: string;
+  /** The status the request was answered with */
+  status: 401 | 403 | 404;
+}
+
+/**
+ * Event for a request the handler can't serve: an invalid skill name or
+ * file path (400), or an unsupported method (405).
+ */
+export interface InvalidRequestEvent extends SkillsEventBase {
+  type: "INVALID_REQUEST";
+  status: 400 | 405;
+  /** The error message sent to the client */
+  error: string;
+  skillName?: string;
+  filePath?: string;
+}
+
+/**
+ * Event for a request redirected to another endpoint, e.g. the base path
+ * to `index.json`.
+ */
+export interface RedirectedEvent extends SkillsEventBase {
+  type: "REDIRECTED";
+  location: string;
+}
+
+/**
+ * Event for a request rejected by the rate limit.
+ */
+export interface RateLimitedEvent extends SkillsEventBase {
+  type: "RATE_LIMITED";
+  /** The rate limit key of the client, e.g. its IP address */
+  key: string;
+  /** Milliseconds until the client may retry */
+  retryAfter: number;
+}
+
+/**
+ * Event emitted once for every response, after its body has been sent or
+ * the client stopped reading it. It follows any other events for the
+ * request.
+ */
+export interface RequestCompletedEvent extends SkillsEventBase {
+  type: "REQUEST_COMPLETED";
+  /** HTTP status of the response */
+  status: number;
+  /** Milliseconds from receiving the request to sending the last byte */
+  duration: number;
+  /** Body bytes sent; 0 for responses without a body */
+  bytes: number;
+  /** The request's User-Agent header */
+  userAgent?: string;
+  /**
+   * How the response relates to the client's cache:
+   * - `"hit"`: the client's copy is current (304 Not Modified)
+   * - `"miss"`: a cacheable representation with an ETag was sent
+   * - `"none"`: the response isn't cacheable, e.g. an error or redirect
+   */
+  cache: "hit" | "miss" | "none";
+  /** The skill the request was for, when it named one */
+  skillName?: string;
+  /** The file the request was for, when it named one */
+  filePath?: string;
+  /** True when the body wasn't sent completely */
+  aborted?: boolean;
+}
+
 /**
  * Error event.
  */
@@ -170,6 +990,145 @@ export interface ErrorEvent extends SkillsEventBase {
   context?: Record<string, unknown>;
 }
 
+/**
+ * Attribute values accepted by OpenTelemetry.
+ */
+export type OpenTelemetryAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The subset of an OpenTelemetry `Tracer` used by
+ * `createOpenTelemetryListener`, so `@opentelemetry/api` isn't a dependency.
+ */
+export interface OpenTelemetryTracer {
+  startSpan(
+    name: string,
+    options?: {
+      kind?: number;
+      startTime?: number;
+      attributes?: OpenTelemetryAttributes;
+    }
+  ): {
+    setStatus(status: { code: number; message?: string }): unknown;
+    end(endTime?: number): void;
+  };
+}
+
+/**
+ * The subset of an OpenTelemetry `Meter` used by
+ * `createOpenTelemetryListener`.
+ */
+export interface OpenTelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: OpenTelemetryAttributes): void };
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: OpenTelemetryAttributes): void };
+}
+
+/**
+ * Options for `createOpenTelemetryListener`.
+ */
+export interface OpenTelemetryOptions {
+  /** Records a server span per request, e.g. `trace.getTracer("skills")` */
+  tracer?: OpenTelemetryTracer;
+  /** Records request metrics, e.g. `metrics.getMeter("skills")` */
+  meter?: OpenTelemetryMeter;
+  /** Attributes added to every span and measurement */
+  attributes?: OpenTelemetryAttributes;
+}
+
+/**
+ * Options for `createSkillsAnalytics`.
+ */
+export interface SkillsAnalyticsOptions {
+  /**
+   * Milliseconds covered by each entry of the time series.
+   * @default 3600000 (one hour)
+   */
+  bucketSize?: number;
+
+  /**
+   * Number of time series entries kept.
+   * @default 168 (one week of hourly buckets)
+   */
+  maxBuckets?: number;
+
+  /**
+   * Number of distinct 404 paths tracked. When full, the least requested
+   * path makes room for a new one.
+   * @default 100
+   */
+  maxNotFoundPaths?: number;
+
+  /**
+   * Extra user agent families, checked before the built-in ones.
+   */
+  agentFamilies?: { name: string; pattern: RegExp }[];
+}
+
+/**
+ * Usage counters for one skill.
+ */
+export interface SkillUsage {
+  /** SKILL.md `GET` requests */
+  loads: number;
+  /** Archive downloads */
+  archives: number;
+  /** `GET` requests per supporting file path */
+  files: Record<string, number>;
+}
+
+/**
+ * Request counts for one time series entry.
+ */
+export interface SkillsAnalyticsBucket {
+  /** ISO 8601 start of the bucket */
+  start: string;
+  requests: number;
+  bytes: number;
+  /** Responses with a 5xx status */
+  errors: number;
+}
+
+/**
+ * A point-in-time copy of the analytics counters, safe to serialize.
+ */
+export interface SkillsAnalyticsSnapshot {
+  /** ISO 8601 time counting started, or the last `reset()` */
+  since: string;
+  totals: {
+    requests: number;
+    bytes: number;
+    /** Responses with a 5xx status */
+    errors: number;
+    /** Requests per response status */
+    statuses: Record<string, number>;
+  };
+  /** Usage per skill name */
+  skills: Record<string, SkillUsage>;
+  /** Requests per user agent family, e.g. `Claude` or `Cursor` */
+  agents: Record<string, number>;
+  /** The most requested missing paths, most requested first */
+  notFound: { path: string; count: number }[];
+  /** Requests over time, oldest first */
+  series: SkillsAnalyticsBucket[];
+}
+
+/**
+ * Aggregates handler events into usage counters.
+ */
+export interface SkillsAnalytics {
+  /** Counts an event; usable directly as `onEvent` */
+  record(event: SkillsEvent): void;
+  /** Returns a copy of the current counters */
+  snapshot(): SkillsAnalyticsSnapshot;
+  /** Clears all counters */
+  reset(): void;
+}
+
 /**
  * Union of all event types.
  */
@@ -177,9 +1136,69 @@ export type SkillsEvent =
   | IndexRequestedEvent
   | SkillRequestedEvent
   | FileRequestedEvent
+  | ArchiveRequestedEvent
   | NotFoundEvent
+  | AccessDeniedEvent
+  | InvalidRequestEvent
+  | RedirectedEvent
+  | RateLimitedEvent
+  | RequestCompletedEvent
   | ErrorEvent;
 
+/**
+ * Identifies the kind of problem a validation diagnostic reports.
+ */
+export type SkillDiagnosticCode =
+  | "MISSING_FRONTMATTER"
+  | "INVALID_YAML"
+  | "INVALID_FRONTMATTER"
+  | "MISSING_NAME"
+  | "INVALID_NAME"
+  | "NAME_MISMATCH"
+  | "MISSING_DESCRIPTION"
+  | "DESCRIPTION_TOO_LONG"
+  | "INVALID_FIELD"
+  | "COMPATIBILITY_TOO_LONG"
+  | "UNKNOWN_FIELD"
+  | "MISSING_SKILL_MD"
+  | "INVALID_FILE_PATH"
+  | "BROKEN_LINK"
+  | "UNREFERENCED_FILE"
+  | "BODY_TOO_LONG"
+  | "DUPLICATE_NAME";
+
+/**
+ * A problem found while validating a skill. Errors make a skill invalid;
+ * warnings are reported but the skill is still served.
+ */
+export interface SkillDiagnostic {
+  code: SkillDiagnosticCode;
+  severity: "error" | "warning";
+  message: string;
+  /** The file the problem is in, relative to the skill directory */
+  file?: string;
+  /** 1-based line number within `file`, when known */
+  line?: number;
+  /** The frontmatter field the problem relates to */
+  field?: string;
+}
+
+/**
+ * The result of `validateSkill`.
+ */
+export interface SkillValidationResult {
+  /** Whether no error diagnostics were reported */
+  valid: boolean;
+  diagnostics: SkillDiagnostic[];
+  /**
+   * The specification-defined frontmatter fields, when validating SKILL.md
+   * source with valid frontmatter.
+   */
+  frontmatter?: SkillFrontmatter;
+  /** The markdown body, when validating SKILL.md source */
+  body?: string;
+}
+
 /**
  * HTTP handler function signature (Web API compatible).
  */
@@ -193,30 +1212,268 @@ export function isValidSkillName(name: string): boolean {
 }
 
 /**
- * Validates a skill's frontmatter.
+ * Validates a skill version.
+ */
+export function isValidSkillVersion(version: string): boolean {
+  return SKILL_VERSION_PATTERN.test(version);
+}
+
+/**
+ * Validates a skill's frontmatter, including the types of its optional
+ * fields. Unknown fields are allowed when their values are JSON-serialisable.
  */
 export function validateSkillFrontmatter(
   frontmatter: unknown
 ): frontmatter is SkillFrontmatter {
-  if (typeof frontmatter !== "object" || frontmatter === null) {
-    return false;
+  return checkSkillFrontmatter(frontmatter).every(
+    (diagnostic) => diagnostic.code === "UNKNOWN_FIELD"
+  );
+}
+
+const FRONTMATTER_FIELDS = new Set([
+  "name",
+  "description",
+  "license",
+  "compatibility",
+  "allowed-tools",
+  "metadata",
+]);
+
+/**
+ * Checks frontmatter fields against the specification, returning a
+ * diagnostic per problem. Diagnostics carry the offending `field` so
+ * callers with source positions can add line numbers.
+ *
+ * Problems with `name` and `description` are errors. Problems with optional
+ * fields are warnings: `pickSkillFrontmatter` leaves those fields out, and
+ * the skill is still served.
+ */
+export function checkSkillFrontmatter(frontmatter: unknown): SkillDiagnostic[] {
+  if (
+    typeof frontmatter !== "object" ||
+    frontmatter === null ||
+    Array.isArray(frontmatter)
+  ) {
+    return [
+      {
+        code: "INVALID_FRONTMATTER",
+        severity: "error",
+        message: "Invalid frontmatter: expected a mapping of fields",
+      },
+    ];
   }
 
   const fm = frontmatter as Record<string, unknown>;
+  const diagnostics: SkillDiagnostic[] = [];
+  const error = (
+    code: SkillDiagnosticCode,
+    field: string,
+    message: string
+  ) => diagnostics.push({ code, severity: "error", message, field });
+  const warning = (
+    code: SkillDiagnosticCode,
+    field: string,
+    message: string
+  ) => diagnostics.push({ code, severity: "warning", message, field });
+
+  if (fm.name === undefined) {
+    error("MISSING_NAME", "name", 'Invalid frontmatter: "name" is required');
+  } else if (typeof fm.name !== "string" || !isValidSkillName(fm.name)) {
+    error(
+      "INVALID_NAME",
+      "name",
+      `Invalid skill name "${String(fm.name)}": must be 1-64 lowercase letters, numbers and hyphens, without leading, trailing or consecutive hyphens`
+    );
+  }
+
+  if (typeof fm.description !== "string" || fm.description.length === 0) {
+    error(
+      "MISSING_DESCRIPTION",
+      "description",
+      "Invalid skill description: must be a non-empty string"
+    );
+  } else if (fm.description.length > MAX_DESCRIPTION_LENGTH) {
+    error(
+      "DESCRIPTION_TOO_LONG",
+      "description",
+      `Invalid skill description: must be at most ${MAX_DESCRIPTION_LENGTH} characters (got ${fm.description.length})`
+    );
+  }
 
-  if (typeof fm.name !== "string" || !isValidSkillName(fm.name)) {
-    return false;
+  for (const field of ["license", "compatibility", "allowed-tools"]) {
+    if (fm[field] !== undefined && typeof fm[field] !== "string") {
+      warning(
+        "INVALID_FIELD",
+        field,
+        `Invalid frontmatter: "${field}" must be a string; it is not served`
+      );
+    }
   }
 
   if (
-    typeof fm.description !== "string" ||
-    fm.description.length === 0 ||
-    fm.description.length > MAX_DESCRIPTION_LENGTH
+    typeof fm.compatibility === "string" &&
+    fm.compatibility.length > MAX_COMPATIBILITY_LENGTH
   ) {
-    return false;
+    warning(
+      "COMPATIBILITY_TOO_LONG",
+      "compatibility",
+      `Invalid frontmatter: "compatibility" must be at most ${MAX_COMPATIBILITY_LENGTH} characters (got ${fm.compatibility.length}); it is not served`
+    );
   }
 
-  return true;
+  if (fm.metadata !== undefined && !isPlainObject(fm.metadata)) {
+    warning(
+      "INVALID_FIELD",
+      "metadata",
+      'Invalid frontmatter: "metadata" must map keys to string values; it is not served'
+    );
+  } else if (fm.metadata !== undefined) {
+    for (const [key, value] of Object.entries(fm.metadata)) {
+      if (typeof value !== "string") {
+        warning(
+          "INVALID_FIELD",
+          "metadata",
+          `Invalid frontmatter: "metadata.${key}" must be a string; it is not served`
+        );
+      }
+    }
+  }
+
+  for (const [field, value] of Object.entries(fm)) {
+    if (FRONTMATTER_FIELDS.has(field)) continue;
+
+    if (isJsonValue(value)) {
+      warning(
+        "UNKNOWN_FIELD",
+        field,
+        `Unknown frontmatter field "${field}" isn't defined by the specification; use "metadata" for custom fields`
+      );
+    } else {
+      warning(
+        "INVALID_FIELD",
+        field,
+        `Invalid frontmatter: "${field}" must be JSON-serialisable; it is not served`
+      );
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Checks the `extras` of a skill defined in code. Extras that collide with
+ * a specification field or aren't JSON-serialisable are reported as
+ * warnings and left out by `pickSkillFrontmatter`.
+ */
+export function checkSkillFrontmatterExtras(extras: unknown): SkillDiagnostic[] {
+  if (extras === undefined) return [];
+  if (!isPlainObject(extras)) {
+    return [
+      {
+        code: "INVALID_FIELD",
+        severity: "warning",
+        message:
+          'Invalid frontmatter: "extras" must map field names to values; it is not served',
+        field: "extras",
+      },
+    ];
+  }
+
+  const diagnostics: SkillDiagnostic[] = [];
+  for (const [field, value] of Object.entries(extras)) {
+    if (FRONTMATTER_FIELDS.has(field)) {
+      diagnostics.push({
+        code: "INVALID_FIELD",
+        severity: "warning",
+        message: `Invalid frontmatter: "extras.${field}" collides with the "${field}" field; it is not served`,
+        field: "extras",
+      });
+    } else if (!isJsonValue(value)) {
+      diagnostics.push({
+        code: "INVALID_FIELD",
+        severity: "warning",
+        message: `Invalid frontmatter: "extras.${field}" must be JSON-serialisable; it is not served`,
+        field: "extras",
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Converts parsed SKILL.md frontmatter into a `SkillFrontmatter`, moving
+ * fields outside the specification into `extras`.
+ */
+export function readSkillFrontmatter(
+  data: Record<string, unknown>
+): SkillFrontmatter {
+  const extras = Object.fromEntries(
+    Object.entries(data).filter(([field]) => !FRONTMATTER_FIELDS.has(field))
+  );
+  return pickSkillFrontmatter({ ...data, extras } as SkillFrontmatter);
+}
+
+/**
+ * Copies the specification-defined frontmatter fields and `extras`,
+ * dropping other keys and optional fields (or metadata entries and extras)
+ * that `checkSkillFrontmatter` or `checkSkillFrontmatterExtras` report as
+ * invalid.
+ */
+export function pickSkillFrontmatter(data: SkillFrontmatter): SkillFrontmatter {
+  const frontmatter: SkillFrontmatter = {
+    name: data.name,
+    description: data.description,
+  };
+
+  if (typeof data.license === "string") frontmatter.license = data.license;
+  if (
+    typeof data.compatibility === "string" &&
+    data.compatibility.length <= MAX_COMPATIBILITY_LENGTH
+  ) {
+    frontmatter.compatibility = data.compatibility;
+  }
+  if (typeof data["allowed-tools"] === "string") {
+    frontmatter["allowed-tools"] = data["allowed-tools"];
+  }
+  if (isPlainObject(data.metadata)) {
+    frontmatter.metadata = Object.fromEntries(
+      Object.entries(data.metadata).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string"
+      )
+    );
+  }
+  if (isPlainObject(data.extras)) {
+    const extras = Object.entries(data.extras).filter(
+      ([field, value]) => !FRONTMATTER_FIELDS.has(field) && isJsonValue(value)
+    );
+    if (extras.length > 0) frontmatter.extras = Object.fromEntries(extras);
+  }
+
+  return frontmatter;
+}
+
+/**
+ * Returns whether a value survives a JSON round trip unchanged: null,
+ * booleans, finite numbers, strings, and arrays or plain objects of them.
+ */
+function isJsonValue(value: unknown): boolean {
+  if (value === null || typeof value === "string" || typeof value === "boolean") {
+    return true;
+  }
+  if (typeof value === "number") return Number.isFinite(value);
+  if (Array.isArray(value)) return value.every(isJsonValue);
+  return (
+    isPlainObject(value) &&
+    Object.getPrototypeOf(value) === Object.prototype &&
+    Object.values(value).every(isJsonValue)
+  );
+}
+
+/**
+ * Returns whether a value is an object that isn't null or an array.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
 /**
@@ -0,0 +1,255 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSkillsAnalytics,
+  createSkillsHandler,
+  createStaticProvider,
+} from "../src/index";
+import type { SkillsEvent } from "../src/index";
+
+const provider = createStaticProvider(
+  [
+    {
+      name: "code-review",
+      description: "Review code for bugs.",
+      body: "# Code Review\n\nSee `references/CHECKLIST.md`.",
+      files: ["SKILL.md", "references/CHECKLIST.md"],
+    },
+  ],
+  { "code-review": { "references/CHECKLIST.md": "# Checklist" } }
+);
+
+const base = "http://localhost/.well-known/skills";
+
+/**
+ * Creates a REQUEST_COMPLETED event with defaults for the fields a test
+ * doesn't care about.
+ */
+function completed(
+  fields: Partial<Extract<SkillsEvent, { type: "REQUEST_COMPLETED" }>>
+): SkillsEvent {
+  return {
+    type: "REQUEST_COMPLETED",
+    path: "/.well-known/skills/index.json",
+    method: "GET",
+    timestamp: 0,
+    status: 200,
+    duration: 1,
+    bytes: 100,
+    cache: "miss",
+    ...fields,
+  };
+}
+
+describe("createSkillsAnalytics", () => {
+  it("counts requests per skill and file from a handler", async () => {
+    const analytics = createSkillsAnalytics();
+    const handler = createSkillsHandler(provider, { analytics });
+
+    for (const path of [
+      "code-review/SKILL.md",
+      "code-review/SKILL.md",
+      "code-review/references/CHECKLIST.md",
+      "missing/SKILL.md",
+    ]) {
+      const response = await handler(
+        new Request(`${base}/${path}`, {
+          headers: { "User-Agent": "Claude-User/1.0" },
+        })
+      );
+      await response.text();
+    }
+
+    const snapshot = analytics.snapshot();
+    expect(snapshot.skills).toEqual({
+      "code-review": {
+        loads: 2,
+        archives: 0,
+        files: { "references/CHECKLIST.md": 1 },
+      },
+    });
+    expect(snapshot.totals).toMatchObject({
+      requests: 4,
+      errors: 0,
+      statuses: { "200": 3, "404": 1 },
+    });
+    expect(snapshot.totals.bytes).toBeGreaterThan(0);
+    expect(snapshot.agents).toEqual({ Claude: 4 });
+    expect(snapshot.notFound).toEqual([
+      { path: "/.well-known/skills/missing/SKILL.md", count: 1 },
+    ]);
+  });
+
+  it("counts only GET requests as skill usage", async () => {
+    const analytics = createSkillsAnalytics();
+    const handler = createSkillsHandler(provider, { analytics });
+
+    for (const method of ["GET", "HEAD"]) {
+      for (const path of [
+        "code-review/SKILL.md",
+        "code-review/references/CHECKLIST.md",
+      ]) {
+        const response = await handler(new Request(`${base}/${path}`, { method }));
+        await response.text();
+      }
+    }
+
+    const snapshot = analytics.snapshot();
+    expect(snapshot.skills["code-review"]).toEqual({
+      loads: 1,
+      archives: 0,
+      files: { "references/CHECKLIST.md": 1 },
+    });
+    // HEAD requests are still counted as requests
+    expect(snapshot.totals.requests).toBe(4);
+  });
+
+  it("groups user agents into families", () => {
+    const analytics = createSkillsAnalytics({
+      agentFamilies: [{ name: "Internal", pattern: /^acme-agent\// }],
+    });
+
+    for (const userAgent of [
+      "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko); compatible; ChatGPT-User/1.0",
+      "Cursor/0.42.3",
+      "curl/8.4.0",
+      "Mozilla/5.0 (Macintosh) Safari/605.1.15",
+      "acme-agent/2.1",
+      "Wget/1.21",
+      undefined,
+    ]) {
+      analytics.record(completed({ userAgent }));
+    }
+
+    expect(analytics.snapshot().agents).toEqual({
+      ChatGPT: 1,
+      Cursor: 1,
+      curl: 1,
+      Browser: 1,
+      Internal: 1,
+      Other: 1,
+      Unknown: 1,
+    });
+  });
+
+  it("keeps the most requested missing paths", () => {
+    const analytics = createSkillsAnalytics({ maxNotFoundPaths: 2 });
+    const notFound = (path: string): SkillsEvent => ({
+      type: "NOT_FOUND",
+      path,
+      method: "GET",
+      timestamp: 0,
+    });
+
+    analytics.record(notFound("/a"));
+    analytics.record(notFound("/a"));
+    analytics.record(notFound("/b"));
+    analytics.record(notFound("/c"));
+    analytics.record(notFound("/c"));
+
+    expect(analytics.snapshot().notFound).toEqual([
+      { path: "/a", count: 2 },
+      { path: "/c", count: 2 },
+    ]);
+  });
+
+  it("buckets requests over time", () => {
+    const analytics = createSkillsAnalytics({ bucketSize: 60000, maxBuckets: 2 });
+
+    analytics.record(completed({ timestamp: 0 }));
+    analytics.record(completed({ timestamp: 60000, status: 500, bytes: 10 }));
+    analytics.record(completed({ timestamp: 90000 }));
+    analytics.record(completed({ timestamp: 120000 }));
+
+    expect(analytics.snapshot().series).toEqual([
+      {
+        start: "1970-01-01T00:01:00.000Z",
+        requests: 2,
+        bytes: 110,
+        errors: 1,
+      },
+      {
+        start: "1970-01-01T00:02:00.000Z",
+        requests: 1,
+        bytes: 100,
+        errors: 0,
+      },
+    ]);
+    expect(analytics.snapshot().totals.errors).toBe(1);
+  });
+
+  it("returns copies and clears counters on reset", () => {
+    const analytics = createSkillsAnalytics();
+    analytics.record({
+      type: "FILE_REQUESTED",
+      path: "/.well-known/skills/code-review/references/CHECKLIST.md",
+      method: "GET",
+      timestamp: 0,
+      skillName: "code-review",
+      filePath: "references/CHECKLIST.md",
+    });
+
+    const snapshot = analytics.snapshot();
+    snapshot.skills["code-review"]!.files["references/CHECKLIST.md"] = 100;
+    expect(
+      analytics.snapshot().skills["code-review"]!.files["references/CHECKLIST.md"]
+    ).toBe(1);
+
+    analytics.reset();
+    expect(analytics.snapshot()).toMatchObject({
+      totals: { requests: 0 },
+      skills: {},
+      series: [],
+    });
+  });
+});
+
+describe("/_stats.json", () => {
+  const statsUrl = `${base}/_stats.json`;
+
+  it("serves the snapshot to requests with the secret", async () => {
+    const analytics = createSkillsAnalytics();
+    const handler = createSkillsHandler(provider, {
+      analytics,
+      statsSecret: "s3cret",
+    });
+    await (await handler(new Request(`${base}/code-review/SKILL.md`))).text();
+
+    const response = await handler(
+      new Request(statsUrl, { headers: { Authorization: "Bearer s3cret" } })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+    const stats = await response.json();
+    expect(stats.skills["code-review"].loads).toBe(1);
+    // Stats requests aren't counted
+    expect(analytics.snapshot().totals.requests).toBe(1);
+  });
+
+  it("rejects requests without the secret", async () => {
+    const handler = createSkillsHandler(provider, {
+      analytics: createSkillsAnalytics(),
+      statsSecret: "s3cret",
+    });
+
+    const missing = await handler(new Request(statsUrl));
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("WWW-Authenticate")).toBe("Bearer");
+
+    const wrong = await handler(
+      new Request(statsUrl, { headers: { Authorization: "Bearer s3cre" } })
+    );
+    expect(wrong.status).toBe(401);
+  });
+
+  it("is not served without a secret", async () => {
+    const handler = createSkillsHandler(provider, {
+      analytics: createSkillsAnalytics(),
+    });
+
+    const response = await handler(
+      new Request(statsUrl, { headers: { Authorization: "Bearer " } })
+    );
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,231 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { gunzipSync } from "zlib";
+import { chmod, mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createFileProvider,
+  createSkillsHandler,
+  createStaticProvider,
+} from "../src/index";
+
+interface TarFile {
+  path: string;
+  mode: number;
+  content: Buffer;
+}
+
+/**
+ * Minimal ustar reader for verifying archive responses, applying the
+ * `path` of PAX extended headers to the following file.
+ */
+async function readTarGz(response: Response): Promise<TarFile[]> {
+  const tar = gunzipSync(Buffer.from(await response.arrayBuffer()));
+  const files: TarFile[] = [];
+  const field = (offset: number, length: number) =>
+    tar
+      .subarray(offset, offset + length)
+      .toString("ascii")
+      .replace(/\0.*$/s, "");
+
+  let offset = 0;
+  let paxPath: string | undefined;
+  while (offset + 512 <= tar.length && tar[offset] !== 0) {
+    const name = field(offset, 100);
+    const prefix = field(offset + 345, 155);
+    const size = parseInt(field(offset + 124, 12), 8);
+    const mode = parseInt(field(offset + 100, 8), 8);
+    const type = field(offset + 156, 1);
+    const content = tar.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "x") {
+      paxPath = /^\d+ path=(.*)$/m.exec(content.toString("utf-8"))?.[1];
+      continue;
+    }
+
+    files.push({
+      path: paxPath ?? (prefix ? `${prefix}/${name}` : name),
+      mode,
+      content,
+    });
+    paxPath = undefined;
+  }
+
+  return files;
+}
+
+const longPath = `references/${"nested/".repeat(15)}GUIDE.md`;
+
+const skills = [
+  {
+    name: "code-review",
+    description: "Review code for bugs, security issues, and best practices.",
+    body: "# Code Review\n\nCheck for security vulnerabilities.",
+    files: ["SKILL.md", "references/CHECKLIST.md", "assets/logo.png", longPath],
+  },
+];
+
+const logo = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+const additionalFiles = {
+  "code-review": {
+    "references/CHECKLIST.md": "# Checklist\n\n- [ ] Security",
+    "assets/logo.png": logo,
+    [longPath]: "# Deeply nested",
+  },
+};
+
+describe("archive endpoint", () => {
+  const handler = createSkillsHandler(
+    createStaticProvider(skills, additionalFiles),
+    { archives: true }
+  );
+
+  it("advertises archives in the index", async () => {
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/index.json")
+    );
+    const index = await response.json();
+
+    expect(index.skills[0].archive).toBe("code-review.tar.gz");
+  });
+
+  it("serves every file of a skill as a tar.gz", async () => {
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/code-review.tar.gz")
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/gzip");
+    expect(response.headers.get("Content-Disposition")).toBe(
+      'attachment; filename="code-review.tar.gz"'
+    );
+
+    const files = await readTarGz(response);
+    expect(files.map((file) => file.path)).toEqual(skills[0]!.files);
+    expect(files[0]!.content.toString()).toContain("name: code-review");
+    expect(files[1]!.content.toString()).toBe("# Checklist\n\n- [ ] Security");
+    expect(new Uint8Array(files[2]!.content)).toEqual(logo);
+    expect(files[3]!.content.toString()).toBe("# Deeply nested");
+  });
+
+  it("stores non-ASCII and overlong paths in PAX headers", async () => {
+    const unicodePath = "references/日本語ガイド.md";
+    const longName = `references/${"x".repeat(120)}.md`;
+    const handler = createSkillsHandler(
+      createStaticProvider(
+        [
+          {
+            ...skills[0]!,
+            name: "unicode",
+            files: ["SKILL.md", unicodePath, longName],
+          },
+        ],
+        { unicode: { [unicodePath]: "# ガイド", [longName]: "# Long" } }
+      ),
+      { archives: true }
+    );
+
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/unicode.tar.gz")
+    );
+    const files = await readTarGz(response);
+
+    expect(files.map((file) => file.path)).toEqual([
+      "SKILL.md",
+      unicodePath,
+      longName,
+    ]);
+    expect(files[1]!.content.toString("utf-8")).toBe("# ガイド");
+    expect(files[2]!.content.toString()).toBe("# Long");
+  });
+
+  it("answers conditional requests using the skill digest", async () => {
+    const url = "http://localhost/.well-known/skills/code-review.tar.gz";
+    const etag = (await handler(new Request(url))).headers.get("ETag");
+
+    expect(etag).toMatch(/^W\/"sha256:[0-9a-f]{64}"$/);
+
+    const response = await handler(
+      new Request(url, { headers: { "If-None-Match": etag! } })
+    );
+    expect(response.status).toBe(304);
+  });
+
+  it("emits archive events", async () => {
+    const events: { type: string }[] = [];
+    const handler = createSkillsHandler(
+      createStaticProvider(skills, additionalFiles),
+      { archives: true, onEvent: (event) => events.push(event) }
+    );
+
+    await handler(
+      new Request("http://localhost/.well-known/skills/code-review.tar.gz")
+    );
+
+    expect(events.map((event) => event.type)).toEqual(["ARCHIVE_REQUESTED"]);
+  });
+
+  it("returns 404 for unknown skills", async () => {
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/unknown.tar.gz")
+    );
+
+    expect(response.status).toBe(404);
+  });
+
+  it("is disabled by default", async () => {
+    const handler = createSkillsHandler(
+      createStaticProvider(skills, additionalFiles)
+    );
+
+    const index = await (
+      await handler(new Request("http://localhost/.well-known/skills/index.json"))
+    ).json();
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/code-review.tar.gz")
+    );
+
+    expect(index.skills[0]).not.toHaveProperty("archive");
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("archive endpoint with createFileProvider", () => {
+  let skillsDir: string;
+
+  beforeAll(async () => {
+    skillsDir = await mkdtemp(join(tmpdir(), "skills-handler-archive-"));
+    await mkdir(join(skillsDir, "setup", "scripts"), { recursive: true });
+    await writeFile(
+      join(skillsDir, "setup", "SKILL.md"),
+      "---\nname: setup\ndescription: Set up the environment.\n---\n\n# Setup\n"
+    );
+    await writeFile(
+      join(skillsDir, "setup", "scripts", "setup.sh"),
+      "#!/bin/sh\n"
+    );
+    await chmod(join(skillsDir, "setup", "scripts", "setup.sh"), 0o755);
+  });
+
+  afterAll(async () => {
+    await rm(skillsDir, { recursive: true, force: true });
+  });
+
+  it("preserves file modes from disk", async () => {
+    const handler = createSkillsHandler(await createFileProvider(skillsDir), {
+      archives: true,
+    });
+
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/setup.tar.gz")
+    );
+    const files = await readTarGz(response);
+    const script = files.find((file) => file.path === "scripts/setup.sh");
+
+    expect(files.filter((file) => file.path === "SKILL.md")).toHaveLength(1);
+    expect(script?.mode).toBe(0o755);
+    expect(script?.content.toString()).toBe("#!/bin/sh\n");
+  });
+});
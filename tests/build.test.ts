@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildStaticSkills,
+  createSkillsHandler,
+  createStaticProvider,
+} from "../src/index";
+
+const logo = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+const provider = createStaticProvider(
+  [
+    {
+      name: "code-review",
+      description: "Review code for bugs: security, style.",
+      body: "# Code Review\n\nSee [the checklist](references/CHECKLIST.md).",
+      files: ["SKILL.md", "references/CHECKLIST.md", "assets/logo.png"],
+      license: "MIT",
+    },
+    {
+      name: "git-workflow",
+      description: "Follow team Git conventions.",
+      body: "# Git Workflow",
+      files: ["SKILL.md"],
+    },
+  ],
+  {
+    "code-review": {
+      "references/CHECKLIST.md": "# Checklist",
+      "assets/logo.png": logo,
+    },
+  }
+);
+
+let outDir: string;
+
+beforeEach(async () => {
+  outDir = await mkdtemp(join(tmpdir(), "skills-handler-build-"));
+});
+
+afterEach(async () => {
+  await rm(outDir, { recursive: true, force: true });
+});
+
+describe("buildStaticSkills", () => {
+  it("writes the files the handler serves", async () => {
+    const result = await buildStaticSkills(provider, outDir);
+
+    expect(result.skillCount).toBe(2);
+    expect(result.files).toEqual([
+      ".well-known/skills/index.json",
+      ".well-known/skills/code-review/SKILL.md",
+      ".well-known/skills/code-review/references/CHECKLIST.md",
+      ".well-known/skills/code-review/assets/logo.png",
+      ".well-known/skills/git-workflow/SKILL.md",
+    ]);
+
+    const handler = createSkillsHandler(provider);
+    for (const file of result.files) {
+      const response = await handler(
+        new Request(`https://example.com/${file}`)
+      );
+      const written = await readFile(join(outDir, file));
+      expect(new Uint8Array(written)).toEqual(
+        new Uint8Array(await response.arrayBuffer())
+      );
+    }
+  });
+
+  it("writes files under a custom base path", async () => {
+    const result = await buildStaticSkills(provider, outDir, {
+      basePath: "/skills/",
+    });
+
+    expect(result.files[0]).toBe("skills/index.json");
+    const index = JSON.parse(
+      await readFile(join(outDir, "skills", "index.json"), "utf-8")
+    );
+    expect(index.skills).toHaveLength(2);
+  });
+
+  it("includes archives when enabled", async () => {
+    const result = await buildStaticSkills(provider, outDir, {
+      archives: true,
+    });
+
+    expect(result.files).toContain(".well-known/skills/code-review.tar.gz");
+    expect(result.files).toContain(".well-known/skills/git-workflow.tar.gz");
+  });
+
+  it("writes _headers with the handler's response headers", async () => {
+    await buildStaticSkills(provider, outDir, {
+      headers: true,
+      cacheControl: "public, max-age=60",
+    });
+
+    const headers = await readFile(join(outDir, "_headers"), "utf-8");
+    const rules = headers.trim().split("\n\n");
+
+    expect(rules).toHaveLength(5);
+    expect(rules[1]!.split("\n")).toEqual([
+      "/.well-known/skills/code-review/SKILL.md",
+      "  Content-Type: text/markdown; charset=utf-8",
+      "  Cache-Control: public, max-age=60",
+      expect.stringMatching(/^ {2}Content-Digest: sha-256=:.+:$/),
+      "  Access-Control-Allow-Origin: *",
+      "  Access-Control-Allow-Methods: GET, HEAD, OPTIONS",
+      "  Access-Control-Allow-Headers: Content-Type",
+      "  Access-Control-Expose-Headers: ETag, Content-Digest, Digest",
+    ]);
+    expect(headers).toContain(
+      "/.well-known/skills/code-review/assets/logo.png\n  Content-Type: image/png"
+    );
+  });
+
+  it("writes CORS headers only for a single allowed origin", async () => {
+    await buildStaticSkills(provider, outDir, {
+      headers: true,
+      cors: "https://app.example.com",
+    });
+    const single = await readFile(join(outDir, "_headers"), "utf-8");
+    expect(single).toContain(
+      "Access-Control-Allow-Origin: https://app.example.com"
+    );
+
+    await buildStaticSkills(provider, outDir, {
+      headers: true,
+      cors: "https://*.example.com",
+    });
+    const pattern = await readFile(join(outDir, "_headers"), "utf-8");
+    expect(pattern).not.toContain("Access-Control-Allow-Origin");
+  });
+
+  it("writes _redirects for the root and skill directories", async () => {
+    await buildStaticSkills(provider, outDir, { redirects: true });
+
+    expect(await readFile(join(outDir, "_redirects"), "utf-8")).toBe(
+      [
+        "/.well-known/skills /.well-known/skills/index.json 302",
+        "/.well-known/skills/ /.well-known/skills/index.json 302",
+        "/.well-known/skills/code-review /.well-known/skills/code-review/SKILL.md 302",
+        "/.well-known/skills/git-workflow /.well-known/skills/git-workflow/SKILL.md 302",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("writes pinned-version routes", async () => {
+    const versioned = createStaticProvider(
+      [
+        {
+          name: "code-review",
+          description: "Review code for bugs.",
+          body: "# Code Review v2",
+          files: ["SKILL.md"],
+          version: "2.0.0",
+        },
+        {
+          name: "code-review",
+          description: "Review code for bugs.",
+          body: "# Code Review v1",
+          files: ["SKILL.md", "references/CHECKLIST.md"],
+          version: "1.0.0",
+        },
+      ],
+      { "code-review@1.0.0": { "references/CHECKLIST.md": "# Checklist v1" } }
+    );
+
+    const result = await buildStaticSkills(versioned, outDir, {
+      redirects: true,
+    });
+
+    expect(result.files).toEqual([
+      ".well-known/skills/index.json",
+      ".well-known/skills/code-review/SKILL.md",
+      ".well-known/skills/code-review@2.0.0/SKILL.md",
+      ".well-known/skills/code-review@1.0.0/SKILL.md",
+      ".well-known/skills/code-review@1.0.0/references/CHECKLIST.md",
+      "_redirects",
+    ]);
+
+    const handler = createSkillsHandler(versioned);
+    for (const file of result.files.slice(0, -1)) {
+      const response = await handler(
+        new Request(`https://example.com/${file}`)
+      );
+      const written = await readFile(join(outDir, file));
+      expect(new Uint8Array(written)).toEqual(
+        new Uint8Array(await response.arrayBuffer())
+      );
+    }
+
+    expect(await readFile(join(outDir, "_redirects"), "utf-8")).toContain(
+      "/.well-known/skills/code-review@1.0.0 /.well-known/skills/code-review@1.0.0/SKILL.md 302"
+    );
+  });
+});
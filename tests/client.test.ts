@@ -0,0 +1,328 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createSkillsClient,
+  createSkillsHandler,
+  createStaticProvider,
+  SkillsClientError,
+} from "../src/index";
+import type { SkillsClientWarning, SkillsHandlerConfig } from "../src/index";
+
+const logo = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+const provider = createStaticProvider(
+  [
+    {
+      name: "code-review",
+      description: "Review code for bugs: security, style.",
+      body: "# Code Review\n\nSee [the checklist](references/CHECKLIST.md).",
+      files: ["SKILL.md", "references/CHECKLIST.md", "assets/logo.png"],
+      license: "MIT",
+      metadata: { author: "docs-team" },
+    },
+  ],
+  {
+    "code-review": {
+      "references/CHECKLIST.md": "# Checklist",
+      "assets/logo.png": logo,
+    },
+  }
+);
+
+/**
+ * Creates a fetch function backed by a handler, recording each request.
+ */
+function createHandlerFetch(config?: SkillsHandlerConfig) {
+  const handler = createSkillsHandler(provider, config);
+  const requests: Request[] = [];
+  const fetch = vi.fn(async (input: string, init?: RequestInit) => {
+    const request = new Request(input, init);
+    requests.push(request);
+    return handler(request);
+  });
+  return { fetch, requests };
+}
+
+/**
+ * Creates a fetch function that serves fixed responses by URL path.
+ */
+function createFixedFetch(routes: Record<string, () => Response>) {
+  return async (input: string) => {
+    const route = routes[new URL(input).pathname];
+    return route ? route() : new Response("Not found", { status: 404 });
+  };
+}
+
+describe("createSkillsClient", () => {
+  it("resolves the index URL from an origin, endpoint or index URL", () => {
+    expect(createSkillsClient("https://example.com").indexUrl).toBe(
+      "https://example.com/.well-known/skills/index.json"
+    );
+    expect(createSkillsClient("https://example.com/skills/").indexUrl).toBe(
+      "https://example.com/skills/index.json"
+    );
+    expect(
+      createSkillsClient("https://example.com/api/index.json").indexUrl
+    ).toBe("https://example.com/api/index.json");
+    expect(
+      createSkillsClient("https://example.com", { basePath: "/agents" })
+        .indexUrl
+    ).toBe("https://example.com/agents/index.json");
+  });
+
+  it("fetches the index", async () => {
+    const { fetch } = createHandlerFetch();
+    const client = createSkillsClient("https://example.com", { fetch });
+
+    const index = await client.getIndex();
+
+    expect(index.skills.map((skill) => skill.name)).toEqual(["code-review"]);
+    expect(index.skills[0]!.files).toContain("assets/logo.png");
+  });
+
+  it("parses SKILL.md back into a skill", async () => {
+    const { fetch } = createHandlerFetch();
+    const client = createSkillsClient("https://example.com", { fetch });
+
+    const skill = await client.getSkill("code-review");
+
+    expect(skill).toMatchObject({
+      name: "code-review",
+      description: "Review code for bugs: security, style.",
+      license: "MIT",
+      metadata: { author: "docs-team" },
+      body: "# Code Review\n\nSee [the checklist](references/CHECKLIST.md).",
+      files: ["SKILL.md", "references/CHECKLIST.md", "assets/logo.png"],
+    });
+    expect(skill.digests?.["SKILL.md"]).toMatch(/^sha256:/);
+  });
+
+  it("fetches files lazily", async () => {
+    const { fetch, requests } = createHandlerFetch();
+    const client = createSkillsClient("https://example.com", { fetch });
+
+    await client.getIndex();
+    expect(requests).toHaveLength(1);
+
+    const file = await client.getSkillFile("code-review", "assets/logo.png");
+
+    expect(file).toEqual({ data: logo, contentType: "image/png" });
+    expect(requests.map((r) => new URL(r.url).pathname)).toEqual([
+      "/.well-known/skills/index.json",
+      "/.well-known/skills/code-review/assets/logo.png",
+    ]);
+  });
+
+  it("reuses fresh responses and revalidates stale ones", async () => {
+    const fresh = createHandlerFetch({ cacheControl: "public, max-age=60" });
+    const client = createSkillsClient("https://example.com", {
+      fetch: fresh.fetch,
+    });
+    await client.getSkill("code-review");
+    await client.getSkill("code-review");
+    expect(fresh.requests).toHaveLength(2);
+
+    const stale = createHandlerFetch({ cacheControl: "no-cache" });
+    const revalidating = createSkillsClient("https://example.com", {
+      fetch: stale.fetch,
+    });
+    const first = await revalidating.getSkill("code-review");
+    const second = await revalidating.getSkill("code-review");
+
+    expect(second).toBe(first);
+    expect(stale.requests).toHaveLength(4);
+    expect(stale.requests[2]!.headers.get("If-None-Match")).toMatch(/^"/);
+    expect(stale.requests[3]!.headers.get("If-None-Match")).toMatch(/^"/);
+  });
+
+  it("does not store no-store responses", async () => {
+    const { fetch, requests } = createHandlerFetch({ cacheControl: "no-store" });
+    const client = createSkillsClient("https://example.com", { fetch });
+
+    await client.getIndex();
+    await client.getIndex();
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1]!.headers.has("If-None-Match")).toBe(false);
+  });
+
+  it("follows redirects and resolves files against the final index URL", async () => {
+    const { fetch: handlerFetch } = createHandlerFetch();
+    const client = createSkillsClient("https://old.example.com", {
+      fetch: async (input, init) => {
+        const url = new URL(input);
+        if (url.hostname === "old.example.com") {
+          return new Response(null, {
+            status: 301,
+            headers: { Location: `https://example.com${url.pathname}` },
+          });
+        }
+        return handlerFetch(input, init);
+      },
+    });
+
+    const skill = await client.getSkill("code-review");
+
+    expect(skill.name).toBe("code-review");
+    expect(handlerFetch.mock.calls.map(([url]) => url)).toEqual([
+      "https://example.com/.well-known/skills/index.json",
+      "https://example.com/.well-known/skills/code-review/SKILL.md",
+    ]);
+  });
+});
+
+describe("SkillsClientError", () => {
+  async function getError(promise: Promise<unknown>) {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).toBeInstanceOf(SkillsClientError);
+      return error as SkillsClientError;
+    }
+    throw new Error("Expected the promise to reject");
+  }
+
+  it("reports skills and files missing from the index", async () => {
+    const { fetch, requests } = createHandlerFetch();
+    const client = createSkillsClient("https://example.com", { fetch });
+
+    const skill = await getError(client.getSkill("missing"));
+    expect(skill.code).toBe("NOT_FOUND");
+
+    const file = await getError(
+      client.getSkillFile("code-review", "../secret.txt")
+    );
+    expect(file.code).toBe("NOT_FOUND");
+    expect(requests).toHaveLength(1);
+  });
+
+  it("reports HTTP and network errors", async () => {
+    const http = await getError(
+      createSkillsClient("https://example.com", {
+        fetch: async () => new Response("Unavailable", { status: 503 }),
+      }).getIndex()
+    );
+    expect(http).toMatchObject({ code: "HTTP_ERROR", status: 503 });
+
+    const network = await getError(
+      createSkillsClient("https://example.com", {
+        fetch: async () => {
+          throw new TypeError("fetch failed");
+        },
+      }).getIndex()
+    );
+    expect(network.code).toBe("NETWORK_ERROR");
+    expect(network.cause).toBeInstanceOf(TypeError);
+  });
+
+  it("reports redirect loops", async () => {
+    const error = await getError(
+      createSkillsClient("https://example.com", {
+        fetch: async (input) =>
+          new Response(null, { status: 302, headers: { Location: input } }),
+      }).getIndex()
+    );
+
+    expect(error.code).toBe("TOO_MANY_REDIRECTS");
+  });
+
+  it("reports invalid indexes and skips invalid entries", async () => {
+    const invalid = await getError(
+      createSkillsClient("https://example.com", {
+        fetch: createFixedFetch({
+          "/.well-known/skills/index.json": () => Response.json([]),
+        }),
+      }).getIndex()
+    );
+    expect(invalid.code).toBe("INVALID_INDEX");
+
+    const warnings: SkillsClientWarning[] = [];
+    const index = await createSkillsClient("https://example.com", {
+      fetch: createFixedFetch({
+        "/.well-known/skills/index.json": () =>
+          Response.json({
+            skills: [
+              { name: "valid", description: "Valid.", files: ["SKILL.md"] },
+              { name: "Invalid", description: "Bad.", files: ["SKILL.md"] },
+              { name: "escape", description: "Bad.", files: ["../x", "SKILL.md"] },
+              "not-an-entry",
+            ],
+          }),
+      }),
+      onWarning: (warning) => warnings.push(warning),
+    }).getIndex();
+
+    expect(index.skills.map((skill) => skill.name)).toEqual(["valid"]);
+    expect(warnings).toMatchObject([
+      { type: "INVALID_INDEX_ENTRY", skillName: "Invalid" },
+      { type: "INVALID_INDEX_ENTRY", skillName: "escape" },
+      { type: "INVALID_INDEX_ENTRY", message: expect.stringContaining("not an object") },
+    ]);
+    expect(warnings[0]!.url).toBe("https://example.com/.well-known/skills/index.json");
+    expect(warnings[2]).not.toHaveProperty("skillName");
+  });
+
+  it("logs skipped index entries by default", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await createSkillsClient("https://example.com", {
+      fetch: createFixedFetch({
+        "/.well-known/skills/index.json": () =>
+          Response.json({
+            skills: [{ name: "Invalid", description: "Bad.", files: ["SKILL.md"] }],
+          }),
+      }),
+    }).getIndex();
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]![0]).toMatch(/^\[skills-handler\] Skipping skill in /);
+    warn.mockRestore();
+  });
+
+  it("reports invalid SKILL.md files", async () => {
+    const client = createSkillsClient("https://example.com", {
+      fetch: createFixedFetch({
+        "/.well-known/skills/index.json": () =>
+          Response.json({
+            skills: [
+              { name: "broken", description: "Broken.", files: ["SKILL.md"] },
+            ],
+          }),
+        "/.well-known/skills/broken/SKILL.md": () =>
+          new Response("---\nname: broken\n---\n# Broken"),
+      }),
+    });
+
+    const error = await getError(client.getSkill("broken"));
+
+    expect(error.code).toBe("INVALID_SKILL");
+    expect(error.diagnostics?.map((d) => d.code)).toEqual([
+      "MISSING_DESCRIPTION",
+    ]);
+  });
+
+  it("reports files that don't match their digest", async () => {
+    const { fetch } = createHandlerFetch();
+    const tampered = async (input: string, init?: RequestInit) =>
+      input.endsWith("CHECKLIST.md")
+        ? new Response("# Tampered")
+        : fetch(input, init);
+
+    const client = createSkillsClient("https://example.com", {
+      fetch: tampered,
+    });
+    const error = await getError(
+      client.getSkillFile("code-review", "references/CHECKLIST.md")
+    );
+    expect(error.code).toBe("DIGEST_MISMATCH");
+
+    const unverified = createSkillsClient("https://example.com", {
+      fetch: tampered,
+      verifyDigests: false,
+    });
+    const file = await unverified.getSkillFile(
+      "code-review",
+      "references/CHECKLIST.md"
+    );
+    expect(new TextDecoder().decode(file.data)).toBe("# Tampered");
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect, vi } from "vitest";
-import { createSkillsHandler, createStaticProvider } from "../src/index";
+import {
+  createSkillsHandler,
+  createStaticProvider,
+  getContentType,
+} from "../src/index";
+import type { SkillsEvent } from "../src/index";
 
 const testSkills = [
   {
@@ -42,6 +47,10 @@ describe("createSkillsHandler", () => {
         name: "git-workflow",
         description: "Follow team Git conventions for branching and commits.",
         files: ["SKILL.md"],
+        digest: expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+        digests: {
+          "SKILL.md": expect.stringMatching(/^sha256:[0-9a-f]{64}$/),
+        },
       });
     });
 
@@ -85,6 +94,29 @@ describe("createSkillsHandler", () => {
       expect(body).toContain("# Git Workflow");
     });
 
+    it("includes optional frontmatter fields", async () => {
+      const handler = createSkillsHandler(
+        createStaticProvider([
+          {
+            ...testSkills[0]!,
+            license: "MIT",
+            compatibility: "Requires git",
+            "allowed-tools": "Bash(git:*) Read",
+            metadata: { author: "platform-team" },
+          },
+        ])
+      );
+      const response = await handler(
+        new Request("http://localhost/.well-known/skills/git-workflow/SKILL.md")
+      );
+
+      const body = await response.text();
+      expect(body).toContain("license: MIT");
+      expect(body).toContain("compatibility: Requires git");
+      expect(body).toContain("allowed-tools: Bash(git:*) Read");
+      expect(body).toContain("metadata:\n  author: platform-team");
+    });
+
     it("returns 404 for unknown skill", async () => {
       const request = new Request(
         "http://localhost/.well-known/skills/unknown-skill/SKILL.md"
@@ -176,6 +208,321 @@ describe("createSkillsHandler", () => {
   });
 });
 
+describe("content digests", () => {
+  const provider = createStaticProvider(testSkills, additionalFiles);
+  const handler = createSkillsHandler(provider);
+
+  async function sha256(data: string): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(data)
+    );
+    return Buffer.from(digest).toString("hex");
+  }
+
+  it("publishes per-file digests matching served content", async () => {
+    const index = await (
+      await handler(new Request("http://localhost/.well-known/skills/index.json"))
+    ).json();
+    const entry = index.skills[1];
+
+    for (const file of entry.files) {
+      const response = await handler(
+        new Request(`http://localhost/.well-known/skills/code-review/${file}`)
+      );
+      const body = await response.text();
+      const hex = await sha256(body);
+
+      expect(entry.digests[file]).toBe(`sha256:${hex}`);
+      expect(response.headers.get("Content-Digest")).toBe(
+        `sha-256=:${Buffer.from(hex, "hex").toString("base64")}:`
+      );
+      expect(response.headers.get("Digest")).toBe(
+        `sha-256=${Buffer.from(hex, "hex").toString("base64")}`
+      );
+    }
+  });
+
+  it("publishes a skill digest over the sorted file manifest", async () => {
+    const index = await (
+      await handler(new Request("http://localhost/.well-known/skills/index.json"))
+    ).json();
+    const entry = index.skills[1];
+
+    const manifest = Object.keys(entry.digests)
+      .sort()
+      .map((file) => `${entry.digests[file].slice("sha256:".length)}  ${file}\n`)
+      .join("");
+
+    expect(entry.digest).toBe(`sha256:${await sha256(manifest)}`);
+  });
+
+  it("omits digests when the provider supplies none", async () => {
+    const handler = createSkillsHandler({
+      getSkills: () => testSkills,
+      getSkillFile: () => null,
+    });
+    const index = await (
+      await handler(new Request("http://localhost/.well-known/skills/index.json"))
+    ).json();
+
+    expect(index.skills[0]).not.toHaveProperty("digests");
+    expect(index.skills[0]).not.toHaveProperty("digest");
+  });
+
+  it("digests the reconstructed SKILL.md instead of the provider's file", async () => {
+    const handler = createSkillsHandler({
+      getSkills: () => [
+        { ...testSkills[0]!, digests: { "SKILL.md": "sha256:original" } },
+      ],
+      getSkillFile: () => null,
+    });
+    const index = await (
+      await handler(new Request("http://localhost/.well-known/skills/index.json"))
+    ).json();
+    const skillMd = await (
+      await handler(
+        new Request("http://localhost/.well-known/skills/git-workflow/SKILL.md")
+      )
+    ).text();
+
+    expect(index.skills[0].digests["SKILL.md"]).toBe(
+      `sha256:${await sha256(skillMd)}`
+    );
+  });
+});
+
+describe("binary files", () => {
+  const png = new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0xff,
+  ]);
+
+  const provider = createStaticProvider(
+    [
+      {
+        name: "assets",
+        description: "Skill with binary assets.",
+        body: "# Assets",
+        files: ["SKILL.md", "logo.png", "data.bin", "stream.pdf"],
+      },
+    ],
+    {
+      assets: {
+        "logo.png": png,
+        "data.bin": { data: png, contentType: "application/octet-stream" },
+        "stream.pdf": new ReadableStream({
+          start(controller) {
+            controller.enqueue(png);
+            controller.close();
+          },
+        }),
+      },
+    }
+  );
+  const handler = createSkillsHandler(provider);
+
+  it("serves byte arrays unchanged", async () => {
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/assets/logo.png")
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(png);
+    expect(response.headers.get("ETag")).toMatch(/^"[0-9a-f]{64}"$/);
+  });
+
+  it("uses the content type from a file descriptor", async () => {
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/assets/data.bin")
+    );
+
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/octet-stream"
+    );
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(png);
+  });
+
+  it("serves streams without an ETag", async () => {
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/assets/stream.pdf")
+    );
+
+    expect(response.headers.get("Content-Type")).toBe("application/pdf");
+    expect(response.headers.get("ETag")).toBeNull();
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(png);
+  });
+});
+
+describe("getContentType", () => {
+  it("covers common binary types", () => {
+    expect(getContentType("logo.png")).toBe("image/png");
+    expect(getContentType("photo.JPG")).toBe("image/jpeg");
+    expect(getContentType("icon.svg")).toBe("image/svg+xml");
+    expect(getContentType("docs/spec.pdf")).toBe("application/pdf");
+    expect(getContentType("bundle.zip")).toBe("application/zip");
+    expect(getContentType("module.wasm")).toBe("application/wasm");
+  });
+
+  it("defaults to plain text", () => {
+    expect(getContentType("Makefile")).toBe("text/plain; charset=utf-8");
+  });
+});
+
+describe("conditional requests", () => {
+  const provider = createStaticProvider(testSkills, additionalFiles);
+  const handler = createSkillsHandler(provider);
+
+  const paths = [
+    "index.json",
+    "git-workflow/SKILL.md",
+    "code-review/references/CHECKLIST.md",
+  ];
+
+  for (const path of paths) {
+    it(`returns a strong ETag and honors If-None-Match for ${path}`, async () => {
+      const url = `http://localhost/.well-known/skills/${path}`;
+      const first = await handler(new Request(url));
+      const etag = first.headers.get("ETag");
+
+      expect(etag).toMatch(/^"[0-9a-f]{64}"$/);
+
+      const second = await handler(
+        new Request(url, { headers: { "If-None-Match": etag! } })
+      );
+      expect(second.status).toBe(304);
+      expect(second.headers.get("ETag")).toBe(etag);
+      expect(second.headers.get("Cache-Control")).toBe("public, max-age=3600");
+      expect(await second.text()).toBe("");
+    });
+  }
+
+  it("returns 200 when If-None-Match does not match", async () => {
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/index.json", {
+        headers: { "If-None-Match": '"stale", W/"other"' },
+      })
+    );
+
+    expect(response.status).toBe(200);
+  });
+
+  it("matches weak validators and wildcards", async () => {
+    const url = "http://localhost/.well-known/skills/git-workflow/SKILL.md";
+    const etag = (await handler(new Request(url))).headers.get("ETag")!;
+
+    const weak = await handler(
+      new Request(url, { headers: { "If-None-Match": `"x", W/${etag}` } })
+    );
+    const wildcard = await handler(
+      new Request(url, { headers: { "If-None-Match": "*" } })
+    );
+
+    expect(weak.status).toBe(304);
+    expect(wildcard.status).toBe(304);
+  });
+
+  it("uses provider-supplied validators", async () => {
+    const lastModified = new Date("2024-01-01T00:00:00Z");
+    const getSkillFile = vi.fn(() => "content");
+    const handler = createSkillsHandler({
+      getSkills: () => [
+        {
+          ...testSkills[1]!,
+          etag: "v1",
+          lastModified,
+        },
+      ],
+      getSkillFile,
+      getSkillFileStat: () => ({ etag: "file-v1", lastModified }),
+    });
+
+    const skillMd = await handler(
+      new Request("http://localhost/.well-known/skills/code-review/SKILL.md")
+    );
+    expect(skillMd.headers.get("Last-Modified")).toBe(
+      lastModified.toUTCString()
+    );
+
+    const index = await handler(
+      new Request("http://localhost/.well-known/skills/index.json")
+    );
+    expect(index.headers.get("Last-Modified")).toBe(lastModified.toUTCString());
+
+    const file = await handler(
+      new Request(
+        "http://localhost/.well-known/skills/code-review/references/CHECKLIST.md",
+        { headers: { "If-None-Match": '"file-v1"' } }
+      )
+    );
+    expect(file.status).toBe(304);
+    expect(getSkillFile).not.toHaveBeenCalled();
+  });
+
+  it("uses the skill etag only for the original SKILL.md", async () => {
+    const provider = {
+      getSkills: () => [{ ...testSkills[0]!, etag: "v1" }],
+      getSkillFile: () => "---\nname: git-workflow\n---\n# Original",
+    };
+    const url = "http://localhost/.well-known/skills/git-workflow/SKILL.md";
+
+    const original = await createSkillsHandler(provider, {
+      serveOriginalSkillMd: true,
+    })(new Request(url));
+    expect(original.headers.get("ETag")).toBe('"v1"');
+
+    // A reconstructed body differs from the provider's file, so it gets
+    // its own validator matching its digest
+    const reconstructed = await createSkillsHandler(provider)(new Request(url));
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(await reconstructed.text())
+    );
+    expect(reconstructed.headers.get("ETag")).toBe(
+      `"${Buffer.from(digest).toString("hex")}"`
+    );
+  });
+
+  it("honors If-Modified-Since", async () => {
+    const lastModified = new Date("2024-01-01T00:00:00Z");
+    const handler = createSkillsHandler({
+      getSkills: () => [{ ...testSkills[0]!, lastModified }],
+      getSkillFile: () => null,
+    });
+    const url = "http://localhost/.well-known/skills/git-workflow/SKILL.md";
+
+    const notModified = await handler(
+      new Request(url, {
+        headers: { "If-Modified-Since": "Mon, 01 Jan 2024 00:00:00 GMT" },
+      })
+    );
+    const modified = await handler(
+      new Request(url, {
+        headers: { "If-Modified-Since": "Sun, 31 Dec 2023 00:00:00 GMT" },
+      })
+    );
+
+    expect(notModified.status).toBe(304);
+    expect(modified.status).toBe(200);
+  });
+
+  it("returns 404 when the provider reports no file stat", async () => {
+    const handler = createSkillsHandler({
+      getSkills: () => testSkills,
+      getSkillFile: () => "content",
+      getSkillFileStat: () => null,
+    });
+
+    const response = await handler(
+      new Request(
+        "http://localhost/.well-known/skills/code-review/references/CHECKLIST.md"
+      )
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
+
 describe("createSkillsHandler with config", () => {
   it("respects custom basePath", async () => {
     const provider = createStaticProvider(testSkills);
@@ -203,6 +550,57 @@ describe("createSkillsHandler with config", () => {
     expect(response.headers.get("Cache-Control")).toBe("no-cache");
   });
 
+  it("serves the provider's original SKILL.md when enabled", async () => {
+    const original = [
+      "---",
+      "# authored comment",
+      "description: Follow team Git conventions for branching and commits.",
+      "name: git-workflow",
+      "---",
+      "",
+      "# Git Workflow",
+      "",
+    ].join("\n");
+    const provider = {
+      getSkills: () => testSkills,
+      getSkillFile: (skillName: string, filePath: string) =>
+        skillName === "git-workflow" && filePath === "SKILL.md"
+          ? original
+          : null,
+    };
+
+    const enabled = createSkillsHandler(provider, {
+      serveOriginalSkillMd: true,
+    });
+    const disabled = createSkillsHandler(provider);
+
+    const response = await enabled(
+      new Request("http://localhost/.well-known/skills/git-workflow/SKILL.md")
+    );
+    expect(await response.text()).toBe(original);
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/markdown; charset=utf-8"
+    );
+
+    const reconstructed = await disabled(
+      new Request("http://localhost/.well-known/skills/git-workflow/SKILL.md")
+    );
+    expect(await reconstructed.text()).not.toContain("# authored comment");
+  });
+
+  it("falls back to reconstruction when the provider has no original", async () => {
+    const handler = createSkillsHandler(createStaticProvider(testSkills), {
+      serveOriginalSkillMd: true,
+    });
+
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/git-workflow/SKILL.md")
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain("name: git-workflow");
+  });
+
   it("can disable CORS", async () => {
     const provider = createStaticProvider(testSkills);
     const handler = createSkillsHandler(provider, {
@@ -231,9 +629,667 @@ describe("createSkillsHandler with config", () => {
       new Request("http://localhost/.well-known/skills/git-workflow/SKILL.md")
     );
 
-    expect(events).toHaveLength(2);
-    expect((events[0] as { type: string }).type).toBe("INDEX_REQUESTED");
-    expect((events[1] as { type: string }).type).toBe("SKILL_REQUESTED");
+    const types = (events as { type: string }[])
+      .map((event) => event.type)
+      .filter((type) => type !== "REQUEST_COMPLETED");
+    expect(types).toEqual(["INDEX_REQUESTED", "SKILL_REQUESTED"]);
+  });
+});
+
+describe("HEAD requests", () => {
+  const provider = createStaticProvider(testSkills, additionalFiles);
+  const handler = createSkillsHandler(provider);
+
+  const paths = [
+    "index.json",
+    "git-workflow/SKILL.md",
+    "code-review/references/CHECKLIST.md",
+  ];
+
+  for (const path of paths) {
+    it(`returns GET headers without a body for ${path}`, async () => {
+      const url = `http://localhost/.well-known/skills/${path}`;
+      const get = await handler(new Request(url));
+      const head = await handler(new Request(url, { method: "HEAD" }));
+      const body = new Uint8Array(await get.arrayBuffer());
+
+      expect(head.status).toBe(200);
+      expect(await head.text()).toBe("");
+      expect(head.headers.get("Content-Length")).toBe(String(body.length));
+      expect(get.headers.get("Content-Length")).toBe(String(body.length));
+      expect(head.headers.get("ETag")).toBe(get.headers.get("ETag"));
+      expect(head.headers.get("Content-Type")).toBe(
+        get.headers.get("Content-Type")
+      );
+    });
+  }
+
+  it("strips bodies from error responses", async () => {
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/unknown/SKILL.md", {
+        method: "HEAD",
+      })
+    );
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toBe("");
+  });
+
+  it("answers from the provider's stat without reading the file", async () => {
+    const getSkillFile = vi.fn(() => "content");
+    const handler = createSkillsHandler({
+      getSkills: () => testSkills,
+      getSkillFile,
+      getSkillFileStat: () => ({ etag: "v1", size: 1234 }),
+    });
+
+    const response = await handler(
+      new Request(
+        "http://localhost/.well-known/skills/code-review/references/CHECKLIST.md",
+        { method: "HEAD" }
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Length")).toBe("1234");
+    expect(response.headers.get("ETag")).toBe('"v1"');
+    expect(response.headers.get("Content-Type")).toBe(
+      "text/markdown; charset=utf-8"
+    );
+    expect(getSkillFile).not.toHaveBeenCalled();
+  });
+
+  it("cancels streamed files it doesn't send", async () => {
+    const cancel = vi.fn();
+    const handler = createSkillsHandler({
+      getSkills: () => testSkills,
+      getSkillFile: () =>
+        new ReadableStream<Uint8Array>({
+          pull(controller) {
+            controller.enqueue(new TextEncoder().encode("chunk"));
+          },
+          cancel,
+        }),
+    });
+
+    const response = await handler(
+      new Request(
+        "http://localhost/.well-known/skills/code-review/references/CHECKLIST.md",
+        { method: "HEAD" }
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Length")).toBeNull();
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it("marks events with the request method", async () => {
+    const events: { type: string; method: string }[] = [];
+    const handler = createSkillsHandler(provider, {
+      onEvent: (event) => events.push(event),
+    });
+    const url = "http://localhost/.well-known/skills/git-workflow/SKILL.md";
+
+    await handler(new Request(url));
+    await handler(new Request(url, { method: "HEAD" }));
+
+    expect(
+      events.filter((event) => event.type !== "REQUEST_COMPLETED")
+    ).toMatchObject([
+      { type: "SKILL_REQUESTED", method: "GET" },
+      { type: "SKILL_REQUESTED", method: "HEAD" },
+    ]);
+  });
+});
+
+describe("telemetry", () => {
+  const provider = createStaticProvider(testSkills, additionalFiles);
+  const base = "http://localhost/.well-known/skills";
+
+  function createRecordingHandler() {
+    const events: SkillsEvent[] = [];
+    const handler = createSkillsHandler(provider, {
+      onEvent: (event) => {
+        events.push(event);
+      },
+    });
+    return { handler, events };
+  }
+
+  function completed(events: SkillsEvent[]) {
+    return events.filter((event) => event.type === "REQUEST_COMPLETED");
+  }
+
+  it("emits REQUEST_COMPLETED once the body has been sent", async () => {
+    const { handler, events } = createRecordingHandler();
+
+    const response = await handler(
+      new Request(`${base}/code-review/references/CHECKLIST.md`, {
+        headers: { "User-Agent": "skills-cli/1.0" },
+      })
+    );
+    expect(completed(events)).toEqual([]);
+
+    const body = await response.text();
+
+    expect(events.map((event) => event.type)).toEqual([
+      "FILE_REQUESTED",
+      "REQUEST_COMPLETED",
+    ]);
+    expect(events[1]).toEqual({
+      type: "REQUEST_COMPLETED",
+      path: "/.well-known/skills/code-review/references/CHECKLIST.md",
+      method: "GET",
+      timestamp: expect.any(Number),
+      status: 200,
+      duration: expect.any(Number),
+      bytes: new TextEncoder().encode(body).byteLength,
+      userAgent: "skills-cli/1.0",
+      cache: "miss",
+      skillName: "code-review",
+      filePath: "references/CHECKLIST.md",
+    });
+  });
+
+  it("reports cache hits and responses without bodies", async () => {
+    const { handler, events } = createRecordingHandler();
+    const url = `${base}/git-workflow/SKILL.md`;
+
+    const first = await handler(new Request(url));
+    await first.text();
+    await handler(
+      new Request(url, {
+        headers: { "If-None-Match": first.headers.get("ETag")! },
+      })
+    );
+    await handler(new Request(url, { method: "HEAD" }));
+
+    expect(completed(events)).toMatchObject([
+      { status: 200, cache: "miss", method: "GET" },
+      { status: 304, cache: "hit", bytes: 0 },
+      { status: 200, cache: "miss", bytes: 0, method: "HEAD" },
+    ]);
+  });
+
+  it("reports responses the client stopped reading as aborted", async () => {
+    const { handler, events } = createRecordingHandler();
+
+    const response = await handler(new Request(`${base}/index.json`));
+    await response.body!.cancel();
+
+    expect(completed(events)).toMatchObject([{ status: 200, aborted: true }]);
+  });
+
+  it("emits events for invalid requests and redirects", async () => {
+    const { handler, events } = createRecordingHandler();
+
+    for (const response of await Promise.all([
+      handler(new Request(`${base}/Invalid_Name/SKILL.md`)),
+      handler(new Request(`${base}/code-review/notes..md`)),
+      handler(new Request(`${base}/index.json`, { method: "POST" })),
+      handler(new Request(`${base}/code-review`)),
+    ])) {
+      await response.text();
+    }
+
+    expect(events.filter((event) => event.type !== "REQUEST_COMPLETED"))
+      .toMatchObject([
+        {
+          type: "INVALID_REQUEST",
+          status: 400,
+          error: "Invalid skill name",
+          skillName: "Invalid_Name",
+        },
+        {
+          type: "INVALID_REQUEST",
+          status: 400,
+          error: "Invalid file path",
+          filePath: "notes..md",
+        },
+        { type: "INVALID_REQUEST", status: 405, error: "Method not allowed" },
+        {
+          type: "REDIRECTED",
+          location: "http://localhost/.well-known/skills/code-review/SKILL.md",
+        },
+      ]);
+    expect(completed(events).map((event) => event.status).sort()).toEqual([
+      302, 400, 400, 405,
+    ]);
+  });
+
+  it("does not fail responses when onEvent throws or rejects", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const url = `${base}/index.json`;
+
+    const throwing = createSkillsHandler(provider, {
+      onEvent: () => {
+        throw new Error("listener failed");
+      },
+    });
+    const rejecting = createSkillsHandler(provider, {
+      onEvent: async () => {
+        throw new Error("listener failed");
+      },
+    });
+
+    const first = await throwing(new Request(url));
+    expect(first.status).toBe(200);
+    await first.json();
+    const second = await rejecting(new Request(url));
+    expect(second.status).toBe(200);
+    await second.json();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(warn).toHaveBeenCalledWith(
+      "[skills-handler] onEvent failed:",
+      expect.any(Error)
+    );
+    expect(warn).toHaveBeenCalledTimes(4);
+    warn.mockRestore();
+  });
+});
+
+describe("CORS", () => {
+  const provider = createStaticProvider(testSkills);
+  const indexUrl = "http://localhost/.well-known/skills/index.json";
+
+  function request(origin?: string, init: RequestInit = {}) {
+    return new Request(indexUrl, {
+      ...init,
+      headers: { ...(origin ? { Origin: origin } : {}), ...init.headers },
+    });
+  }
+
+  it("reflects an allowed origin from a list", async () => {
+    const handler = createSkillsHandler(provider, {
+      cors: ["https://a.example.com", "https://b.example.org"],
+    });
+
+    const response = await handler(request("https://b.example.org"));
+
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://b.example.org"
+    );
+    expect(response.headers.get("Vary")).toBe("Origin");
+  });
+
+  it("omits CORS headers for origins not in the list", async () => {
+    const handler = createSkillsHandler(provider, {
+      cors: ["https://a.example.com"],
+    });
+
+    const response = await handler(request("https://evil.example.net"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    expect(response.headers.get("Vary")).toBe("Origin");
+  });
+
+  it("matches wildcard subdomain patterns", async () => {
+    const handler = createSkillsHandler(provider, {
+      cors: ["https://*.example.com"],
+    });
+
+    const allowed = await handler(request("https://docs.app.example.com"));
+    const apex = await handler(request("https://example.com"));
+    const lookalike = await handler(request("https://example.com.evil.net"));
+
+    expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://docs.app.example.com"
+    );
+    expect(apex.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    expect(lookalike.headers.get("Access-Control-Allow-Origin")).toBeNull();
+  });
+
+  it("supports a predicate", async () => {
+    const handler = createSkillsHandler(provider, {
+      cors: (origin) => origin.endsWith(".internal"),
+    });
+
+    const allowed = await handler(request("http://agent.internal"));
+    const denied = await handler(request("http://agent.example"));
+
+    expect(allowed.headers.get("Access-Control-Allow-Origin")).toBe(
+      "http://agent.internal"
+    );
+    expect(denied.headers.get("Access-Control-Allow-Origin")).toBeNull();
+  });
+
+  it("adds CORS headers to redirects and errors", async () => {
+    const handler = createSkillsHandler(provider);
+
+    const redirect = await handler(
+      new Request("http://localhost/.well-known/skills/git-workflow")
+    );
+    const notFound = await handler(
+      new Request("http://localhost/.well-known/skills/unknown/SKILL.md")
+    );
+
+    expect(redirect.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(notFound.headers.get("Access-Control-Allow-Origin")).toBe("*");
+  });
+
+  it("honors preflight request headers and max age", async () => {
+    const handler = createSkillsHandler(provider, {
+      cors: ["https://a.example.com"],
+      corsMaxAge: 600,
+    });
+
+    const response = await handler(
+      request("https://a.example.com", {
+        method: "OPTIONS",
+        headers: {
+          "Access-Control-Request-Method": "GET",
+          "Access-Control-Request-Headers": "if-none-match, authorization",
+        },
+      })
+    );
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe(
+      "https://a.example.com"
+    );
+    expect(response.headers.get("Access-Control-Allow-Headers")).toBe(
+      "if-none-match, authorization"
+    );
+    expect(response.headers.get("Access-Control-Max-Age")).toBe("600");
+    expect(response.headers.get("Vary")).toBe(
+      "Access-Control-Request-Headers, Origin"
+    );
+  });
+});
+
+describe("authorization", () => {
+  const provider = createStaticProvider(
+    [
+      ...testSkills,
+      {
+        name: "internal-deploy",
+        description: "Deploy with internal tooling.",
+        body: "# Internal Deploy",
+        files: ["SKILL.md", "scripts/deploy.sh"],
+        visibility: "private",
+      },
+    ],
+    {
+      ...additionalFiles,
+      "internal-deploy": { "scripts/deploy.sh": "#!/bin/sh\ndeploy" },
+    }
+  );
+
+  // Callers with a token may see private skills; "ops" may also deploy
+  const authorize = vi.fn((request: Request, skill?: { name: string }) => {
+    const token = request.headers.get("Authorization");
+    if (!token) return "unauthenticated" as const;
+    return !skill || token === "Bearer ops";
+  });
+
+  const url = (path: string) => `http://localhost/.well-known/skills/${path}`;
+  const get = (handler: (r: Request) => Promise<Response> | Response) =>
+    (path: string, token?: string) =>
+      handler(
+        new Request(url(path), {
+          headers: token ? { Authorization: `Bearer ${token}` } : {},
+        })
+      );
+
+  it("filters the index per caller", async () => {
+    const request = get(createSkillsHandler(provider, { authorize }));
+
+    const anonymous = await (await request("index.json")).json();
+    expect(anonymous.skills.map((s: { name: string }) => s.name)).toEqual([
+      "git-workflow",
+      "code-review",
+    ]);
+
+    const other = await (await request("index.json", "dev")).json();
+    expect(other.skills).toHaveLength(2);
+
+    const ops = await (await request("index.json", "ops")).json();
+    expect(ops.skills.map((s: { name: string }) => s.name)).toContain(
+      "internal-deploy"
+    );
+  });
+
+  it("serves private skills to authorized callers", async () => {
+    const request = get(createSkillsHandler(provider, { authorize }));
+
+    const skillMd = await request("internal-deploy/SKILL.md", "ops");
+    expect(skillMd.status).toBe(200);
+    expect(skillMd.headers.get("Cache-Control")).toBe("private, max-age=3600");
+
+    const file = await request("internal-deploy/scripts/deploy.sh", "ops");
+    expect(file.status).toBe(200);
+    expect(await file.text()).toBe("#!/bin/sh\ndeploy");
+  });
+
+  it("hides private skills with 404 by default", async () => {
+    const request = get(createSkillsHandler(provider, { authorize }));
+
+    for (const token of [undefined, "dev"]) {
+      const skillMd = await request("internal-deploy/SKILL.md", token);
+      expect(skillMd.status).toBe(404);
+      expect(await skillMd.json()).toEqual({ error: "Skill not found" });
+
+      const file = await request("internal-deploy/scripts/deploy.sh", token);
+      expect(file.status).toBe(404);
+    }
+  });
+
+  it("returns 401 and 403 when private skills aren't hidden", async () => {
+    const request = get(
+      createSkillsHandler(provider, {
+        authorize,
+        hidePrivateSkills: false,
+        wwwAuthenticate: 'Bearer realm="skills"',
+      })
+    );
+
+    const anonymous = await request("internal-deploy/SKILL.md");
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get("WWW-Authenticate")).toBe(
+      'Bearer realm="skills"'
+    );
+
+    const forbidden = await request("internal-deploy/scripts/deploy.sh", "dev");
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.headers.get("Cache-Control")).toBe(
+      "private, max-age=3600"
+    );
+  });
+
+  it("authenticates once per request and skips public skills", async () => {
+    authorize.mockClear();
+    const request = get(createSkillsHandler(provider, { authorize }));
+
+    await request("git-workflow/SKILL.md");
+    expect(authorize).not.toHaveBeenCalled();
+
+    await request("index.json", "ops");
+    expect(authorize.mock.calls.map(([, skill]) => skill?.name)).toEqual([
+      undefined,
+      "internal-deploy",
+    ]);
+  });
+
+  it("serves responses that depend on the caller as private", async () => {
+    const handler = createSkillsHandler(provider, {
+      authorize,
+      cacheControl: "public, max-age=60, s-maxage=600",
+    });
+
+    const index = await handler(new Request(url("index.json")));
+    expect(index.headers.get("Cache-Control")).toBe("private, max-age=60");
+
+    const publicSkill = await handler(new Request(url("git-workflow/SKILL.md")));
+    expect(publicSkill.headers.get("Cache-Control")).toBe(
+      "public, max-age=60, s-maxage=600"
+    );
+  });
+
+  it("never serves private skills without authorize", async () => {
+    const request = get(createSkillsHandler(provider));
+
+    const index = await (await request("index.json", "ops")).json();
+    expect(index.skills).toHaveLength(2);
+    expect((await request("internal-deploy/SKILL.md", "ops")).status).toBe(
+      404
+    );
+  });
+
+  it("never serves files of private skills the handler rejects", async () => {
+    const handler = createSkillsHandler(
+      {
+        getSkills: () => [
+          {
+            name: "secret",
+            description: "",
+            body: "# Secret",
+            files: ["SKILL.md", "key.txt"],
+            visibility: "private",
+          },
+        ],
+        getSkillFile: (_skillName, filePath) =>
+          filePath === "key.txt" ? "TOP SECRET" : null,
+      },
+      { authorize: () => false }
+    );
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      const response = await handler(new Request(url("secret/key.txt")));
+      expect(response.status).toBe(404);
+      expect(await response.text()).not.toContain("TOP SECRET");
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it("emits ACCESS_DENIED events", async () => {
+    const onEvent = vi.fn();
+    const request = get(createSkillsHandler(provider, { authorize, onEvent }));
+
+    await request("internal-deploy/scripts/deploy.sh", "dev");
+
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "ACCESS_DENIED",
+        skillName: "internal-deploy",
+        filePath: "scripts/deploy.sh",
+        status: 404,
+      })
+    );
+  });
+});
+
+describe("versions", () => {
+  const provider = createStaticProvider(
+    [
+      {
+        name: "code-review",
+        description: "Review code for bugs.",
+        body: "# Code Review v2",
+        files: ["SKILL.md", "references/CHECKLIST.md"],
+        version: "2.0.0",
+      },
+      {
+        name: "code-review",
+        description: "Review code for bugs.",
+        body: "# Code Review v1",
+        files: ["SKILL.md", "references/CHECKLIST.md"],
+        version: "1.0.0",
+      },
+    ],
+    {
+      "code-review": { "references/CHECKLIST.md": "# Checklist v2" },
+      "code-review@1.0.0": { "references/CHECKLIST.md": "# Checklist v1" },
+    }
+  );
+  const handler = createSkillsHandler(provider);
+  const base = "http://localhost/.well-known/skills";
+
+  it("lists versions in the index", async () => {
+    const response = await handler(new Request(`${base}/index.json`));
+    const { skills } = await response.json();
+
+    expect(skills[0]).toMatchObject({
+      name: "code-review",
+      version: "2.0.0",
+      versions: ["2.0.0", "1.0.0"],
+    });
+  });
+
+  it("serves the latest revision at unversioned paths", async () => {
+    const response = await handler(
+      new Request(`${base}/code-review/SKILL.md`)
+    );
+    expect(await response.text()).toContain("# Code Review v2");
+
+    const latest = await handler(
+      new Request(`${base}/code-review@2.0.0/SKILL.md`)
+    );
+    expect(await latest.text()).toContain("# Code Review v2");
+  });
+
+  it("serves pinned versions", async () => {
+    const skillMd = await handler(
+      new Request(`${base}/code-review@1.0.0/SKILL.md`)
+    );
+    expect(skillMd.status).toBe(200);
+    expect(await skillMd.text()).toContain("# Code Review v1");
+
+    const file = await handler(
+      new Request(`${base}/code-review%401.0.0/references/CHECKLIST.md`)
+    );
+    expect(await file.text()).toBe("# Checklist v1");
+  });
+
+  it("redirects pinned skill directories", async () => {
+    const response = await handler(new Request(`${base}/code-review@1.0.0`));
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe(
+      `${base}/code-review@1.0.0/SKILL.md`
+    );
+  });
+
+  it("returns 404 for unknown versions", async () => {
+    const skillMd = await handler(
+      new Request(`${base}/code-review@3.0.0/SKILL.md`)
+    );
+    expect(skillMd.status).toBe(404);
+
+    const file = await handler(
+      new Request(`${base}/code-review@3.0.0/references/CHECKLIST.md`)
+    );
+    expect(file.status).toBe(404);
+  });
+
+  it("returns 400 for invalid versions", async () => {
+    const response = await handler(
+      new Request(`${base}/code-review@-1/SKILL.md`)
+    );
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: "Invalid skill version" });
+  });
+
+  it("includes the version in events", async () => {
+    const events: SkillsEvent[] = [];
+    const handler = createSkillsHandler(provider, {
+      onEvent: (event) => {
+        events.push(event);
+      },
+    });
+
+    await handler(new Request(`${base}/code-review@1.0.0/SKILL.md`));
+
+    expect(events[0]).toMatchObject({
+      type: "SKILL_REQUESTED",
+      skillName: "code-review",
+      version: "1.0.0",
+    });
   });
 });
 
@@ -264,6 +1320,48 @@ describe("createStaticProvider", () => {
     ).toThrow("must include SKILL.md");
   });
 
+  it("serves skills with invalid optional fields without those fields", async () => {
+    const handler = createSkillsHandler(
+      createStaticProvider([
+        {
+          name: "test-skill",
+          description: "Test",
+          body: "Test",
+          files: ["SKILL.md"],
+          license: 1 as unknown as string,
+          metadata: { author: "docs-team", version: 1 as unknown as string },
+        },
+      ])
+    );
+
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/test-skill/SKILL.md")
+    );
+
+    expect(await response.text()).toBe(
+      "---\nname: test-skill\ndescription: Test\nmetadata:\n  author: docs-team\n---\n\nTest"
+    );
+  });
+
+  it("requires distinct versions for skills sharing a name", () => {
+    const skill = {
+      name: "test-skill",
+      description: "Test",
+      body: "Test",
+      files: ["SKILL.md"],
+    };
+
+    expect(() => createStaticProvider([skill, skill])).toThrow(
+      "defined more than once"
+    );
+    expect(() =>
+      createStaticProvider([
+        { ...skill, version: "1.0.0" },
+        { ...skill, version: "1.0.0" },
+      ])
+    ).toThrow("defined more than once");
+  });
+
   it("validates description length", () => {
     expect(() =>
       createStaticProvider([
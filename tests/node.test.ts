@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import { connect, type AddressInfo } from "net";
+import {
+  createSkillsHandler,
+  createStaticProvider,
+  toNodeListener,
+} from "../src/index";
+
+const handler = createSkillsHandler(
+  createStaticProvider(
+    [
+      {
+        name: "code-review",
+        description: "Review code for bugs.",
+        body: "# Code Review",
+        files: ["SKILL.md", "assets/logo.png"],
+      },
+    ],
+    {
+      "code-review": {
+        "assets/logo.png": new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]),
+      },
+    }
+  )
+);
+
+let server: Server;
+let origin: string;
+
+beforeAll(async () => {
+  server = createServer(toNodeListener(handler));
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("toNodeListener", () => {
+  it("serves the handler's responses", async () => {
+    const response = await fetch(`${origin}/.well-known/skills/index.json`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("application/json");
+    const index = await response.json();
+    expect(index.skills[0].name).toBe("code-review");
+  });
+
+  it("serves binary files unchanged", async () => {
+    const response = await fetch(
+      `${origin}/.well-known/skills/code-review/assets/logo.png`
+    );
+
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(
+      new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff])
+    );
+  });
+
+  it("passes request headers and methods through", async () => {
+    const first = await fetch(
+      `${origin}/.well-known/skills/code-review/SKILL.md`
+    );
+    const etag = first.headers.get("etag")!;
+
+    const conditional = await fetch(
+      `${origin}/.well-known/skills/code-review/SKILL.md`,
+      { headers: { "If-None-Match": etag } }
+    );
+    expect(conditional.status).toBe(304);
+
+    const post = await fetch(`${origin}/.well-known/skills/index.json`, {
+      method: "POST",
+    });
+    expect(post.status).toBe(405);
+  });
+
+  it("forwards redirects", async () => {
+    const response = await fetch(`${origin}/.well-known/skills/code-review`, {
+      redirect: "manual",
+    });
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get("location")).toContain(
+      "/.well-known/skills/code-review/SKILL.md"
+    );
+  });
+
+  it("stops reading the body when the client disconnects", async () => {
+    let cancelled = false;
+    const chunk = new Uint8Array(64 * 1024);
+    const streaming = createServer(
+      toNodeListener(
+        createSkillsHandler({
+          getSkills: () => [
+            {
+              name: "code-review",
+              description: "Review code for bugs.",
+              body: "# Code Review",
+              files: ["SKILL.md", "assets/large.bin"],
+            },
+          ],
+          // An endless file, so the client is always behind
+          getSkillFile: () =>
+            new ReadableStream({
+              pull: (controller) => controller.enqueue(chunk),
+              cancel: () => {
+                cancelled = true;
+              },
+            }),
+        })
+      )
+    );
+    await new Promise<void>((resolve) =>
+      streaming.listen(0, "127.0.0.1", resolve)
+    );
+
+    try {
+      const { port } = streaming.address() as AddressInfo;
+      const socket = connect(port, "127.0.0.1");
+      socket.write(
+        "GET /.well-known/skills/code-review/assets/large.bin HTTP/1.1\r\nHost: localhost\r\n\r\n"
+      );
+
+      // Stop reading once the body starts, so the server waits for drain,
+      // then disconnect
+      await new Promise((resolve) => socket.once("data", resolve));
+      socket.pause();
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      socket.destroy();
+
+      const start = Date.now();
+      while (!cancelled && Date.now() - start < 2000) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      expect(cancelled).toBe(true);
+    } finally {
+      streaming.closeAllConnections();
+      await new Promise((resolve) => streaming.close(resolve));
+    }
+  });
+});
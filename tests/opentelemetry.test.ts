@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  createOpenTelemetryListener,
+  createSkillsHandler,
+  createStaticProvider,
+} from "../src/index";
+import type { OpenTelemetryMeter, OpenTelemetryTracer } from "../src/index";
+
+const provider = createStaticProvider([
+  {
+    name: "git-workflow",
+    description: "Follow team Git conventions for branching and commits.",
+    body: "# Git Workflow",
+    files: ["SKILL.md"],
+  },
+]);
+
+/**
+ * Creates a tracer and meter that record what they're given.
+ */
+function createRecorders() {
+  const spans: {
+    name: string;
+    options: Parameters<OpenTelemetryTracer["startSpan"]>[1];
+    status?: { code: number };
+    endTime?: number;
+  }[] = [];
+  const tracer: OpenTelemetryTracer = {
+    startSpan(name, options) {
+      const span: (typeof spans)[number] = { name, options };
+      spans.push(span);
+      return {
+        setStatus: (status) => (span.status = status),
+        end: (endTime) => (span.endTime = endTime),
+      };
+    },
+  };
+
+  const measurements: Record<string, [number, unknown][]> = {};
+  const record = (name: string) => {
+    const values: [number, unknown][] = (measurements[name] = []);
+    return (value: number, attributes?: unknown) => {
+      values.push([value, attributes]);
+    };
+  };
+  const meter: OpenTelemetryMeter = {
+    createHistogram: (name) => ({ record: record(name) }),
+    createCounter: (name) => ({ add: record(name) }),
+  };
+
+  return { tracer, meter, spans, measurements };
+}
+
+describe("createOpenTelemetryListener", () => {
+  it("records a server span and metrics per request", async () => {
+    const { tracer, meter, spans, measurements } = createRecorders();
+    const handler = createSkillsHandler(provider, {
+      onEvent: createOpenTelemetryListener({
+        tracer,
+        meter,
+        attributes: { "service.name": "docs" },
+      }),
+    });
+
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/git-workflow/SKILL.md", {
+        headers: { "User-Agent": "skills-cli/1.0" },
+      })
+    );
+    const bytes = (await response.arrayBuffer()).byteLength;
+
+    expect(spans).toHaveLength(1);
+    const [span] = spans;
+    expect(span!.name).toBe("GET");
+    expect(span!.options).toMatchObject({
+      kind: 1,
+      attributes: {
+        "service.name": "docs",
+        "http.request.method": "GET",
+        "http.response.status_code": 200,
+        "http.response.body.size": bytes,
+        "url.path": "/.well-known/skills/git-workflow/SKILL.md",
+        "user_agent.original": "skills-cli/1.0",
+        "skills.skill.name": "git-workflow",
+        "skills.cache": "miss",
+      },
+    });
+    expect(span!.options!.startTime).toBeLessThanOrEqual(span!.endTime!);
+    expect(span!.status).toBeUndefined();
+
+    const attributes = {
+      "service.name": "docs",
+      "http.request.method": "GET",
+      "http.response.status_code": 200,
+    };
+    expect(measurements["http.server.request.duration"]).toEqual([
+      [expect.any(Number), attributes],
+    ]);
+    expect(measurements["http.server.response.body.size"]).toEqual([
+      [bytes, attributes],
+    ]);
+    expect(measurements["skills.events"]).toEqual([
+      [
+        1,
+        {
+          "service.name": "docs",
+          "skills.event.type": "SKILL_REQUESTED",
+          "skills.skill.name": "git-workflow",
+        },
+      ],
+    ]);
+  });
+
+  it("marks server errors on the span", async () => {
+    const { tracer, spans } = createRecorders();
+    const handler = createSkillsHandler(
+      {
+        getSkills: () => {
+          throw new Error("Provider unavailable");
+        },
+        getSkillFile: () => null,
+      },
+      { onEvent: createOpenTelemetryListener({ tracer }) }
+    );
+
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/index.json")
+    );
+    await response.text();
+
+    expect(spans).toMatchObject([
+      {
+        options: { attributes: { "http.response.status_code": 500 } },
+        status: { code: 2 },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,1043 @@
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+} from "vitest";
+import { execFileSync } from "child_process";
+import { createHash } from "crypto";
+import {
+  mkdtemp,
+  mkdir,
+  readFile,
+  rm,
+  symlink,
+  writeFile,
+} from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createCompositeProvider,
+  createFileProvider,
+  createRemoteProvider,
+  createSkillsHandler,
+  createStaticProvider,
+} from "../src/index";
+import type {
+  Skill,
+  SkillChangeEvent,
+  SkillProvider,
+  SkillWarning,
+} from "../src/index";
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+
+let skillsDir: string;
+
+beforeAll(async () => {
+  skillsDir = await mkdtemp(join(tmpdir(), "skills-handler-"));
+  await mkdir(join(skillsDir, "pdf-processing", "scripts"), { recursive: true });
+  await writeFile(
+    join(skillsDir, "pdf-processing", "SKILL.md"),
+    [
+      "---",
+      "name: pdf-processing",
+      "description: Extract text from PDFs.",
+      "license: Apache-2.0",
+      "allowed-tools: Bash(python:*)",
+      "metadata:",
+      "  author: docs-team",
+      "x-custom: kept",
+      "---",
+      "",
+      "# PDF Processing",
+      "",
+    ].join("\n")
+  );
+  await writeFile(
+    join(skillsDir, "pdf-processing", "scripts", "extract.py"),
+    "print('extract')\n"
+  );
+  await mkdir(join(skillsDir, "pdf-processing", "assets"));
+  await writeFile(join(skillsDir, "pdf-processing", "assets", "logo.png"), PNG);
+  await writeFile(join(skillsDir, "pdf-processing", "assets", "blob"), PNG);
+});
+
+afterAll(async () => {
+  await rm(skillsDir, { recursive: true, force: true });
+});
+
+describe("createFileProvider", () => {
+  it("loads skills with cache validators", async () => {
+    const provider = await createFileProvider(skillsDir);
+    const [skill] = await provider.getSkills();
+
+    expect(skill?.name).toBe("pdf-processing");
+    expect(skill?.files.sort()).toEqual([
+      "SKILL.md",
+      "assets/blob",
+      "assets/logo.png",
+      "scripts/extract.py",
+    ]);
+    expect(skill?.etag).toMatch(/^[0-9a-f]{64}$/);
+    expect(skill?.lastModified).toBeInstanceOf(Date);
+  });
+
+  it("keeps specification and extra frontmatter fields", async () => {
+    const provider = await createFileProvider(skillsDir);
+    const [skill] = await provider.getSkills();
+
+    expect(skill?.license).toBe("Apache-2.0");
+    expect(skill?.["allowed-tools"]).toBe("Bash(python:*)");
+    expect(skill?.metadata).toEqual({ author: "docs-team" });
+    expect(skill).not.toHaveProperty("x-custom");
+    expect(skill?.extras).toEqual({ "x-custom": "kept" });
+    expect(skill).not.toHaveProperty("visibility");
+  });
+
+  it("reads visibility from metadata", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "skills-handler-visibility-"));
+    await mkdir(join(dir, "internal"));
+    await writeFile(
+      join(dir, "internal", "SKILL.md"),
+      "---\nname: internal\ndescription: Internal.\nmetadata:\n  visibility: private\n---\n# Internal\n"
+    );
+
+    const provider = await createFileProvider(dir);
+    const [skill] = await provider.getSkills();
+    await rm(dir, { recursive: true, force: true });
+
+    expect(skill?.visibility).toBe("private");
+  });
+
+  it("computes per-file digests", async () => {
+    const provider = await createFileProvider(skillsDir);
+    const [skill] = await provider.getSkills();
+    const script = await readFile(
+      join(skillsDir, "pdf-processing", "scripts", "extract.py")
+    );
+
+    expect(Object.keys(skill?.digests ?? {}).sort()).toEqual(
+      [...skill!.files].sort()
+    );
+    expect(skill?.digests?.["scripts/extract.py"]).toBe(
+      `sha256:${createHash("sha256").update(script).digest("hex")}`
+    );
+  });
+
+  it("reports file validators without changing them between calls", async () => {
+    const provider = await createFileProvider(skillsDir);
+
+    const first = await provider.getSkillFileStat!(
+      "pdf-processing",
+      "scripts/extract.py"
+    );
+    const second = await provider.getSkillFileStat!(
+      "pdf-processing",
+      "scripts/extract.py"
+    );
+
+    expect(first?.etag).toMatch(/^[0-9a-f]{64}$/);
+    expect(second).toEqual(first);
+  });
+
+  it("reads text files as strings", async () => {
+    const provider = await createFileProvider(skillsDir);
+
+    expect(
+      await provider.getSkillFile("pdf-processing", "scripts/extract.py")
+    ).toBe("print('extract')\n");
+  });
+
+  it("reads binary files as raw bytes", async () => {
+    const provider = await createFileProvider(skillsDir);
+
+    const logo = await provider.getSkillFile(
+      "pdf-processing",
+      "assets/logo.png"
+    );
+    expect(logo).toBeInstanceOf(Uint8Array);
+    expect(new Uint8Array(logo as Uint8Array)).toEqual(PNG);
+  });
+
+  it("detects binary content in files without a known extension", async () => {
+    const provider = await createFileProvider(skillsDir);
+
+    const blob = await provider.getSkillFile("pdf-processing", "assets/blob");
+    expect(blob).toMatchObject({ contentType: "application/octet-stream" });
+  });
+
+  it("serves files of skills named differently from their directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "skills-handler-renamed-"));
+    await mkdir(join(dir, "pdf", "scripts"), { recursive: true });
+    await writeFile(
+      join(dir, "pdf", "SKILL.md"),
+      "---\nname: pdf-processing\ndescription: Extract text from PDFs.\n---\n# PDF\n"
+    );
+    await writeFile(join(dir, "pdf", "scripts", "extract.py"), "print('extract')\n");
+
+    const handler = createSkillsHandler(await createFileProvider(dir), {
+      archives: true,
+    });
+    const base = "http://localhost/.well-known/skills";
+    const index = await (await handler(new Request(`${base}/index.json`))).json();
+    const file = await handler(
+      new Request(`${base}/pdf-processing/scripts/extract.py`)
+    );
+    const archive = await handler(new Request(`${base}/pdf-processing.tar.gz`));
+    const byDirectory = await handler(new Request(`${base}/pdf/scripts/extract.py`));
+    await rm(dir, { recursive: true, force: true });
+
+    expect(index.skills[0]).toMatchObject({
+      name: "pdf-processing",
+      archive: "pdf-processing.tar.gz",
+    });
+    expect(file.status).toBe(200);
+    expect(await file.text()).toBe("print('extract')\n");
+    expect(file.headers.get("Content-Digest")).toContain(
+      Buffer.from(
+        index.skills[0].digests["scripts/extract.py"].slice("sha256:".length),
+        "hex"
+      ).toString("base64")
+    );
+    expect(archive.status).toBe(200);
+    expect((await archive.arrayBuffer()).byteLength).toBeGreaterThan(0);
+    expect(byDirectory.status).toBe(404);
+  });
+
+  it("serves the original SKILL.md bytes when enabled", async () => {
+    const handler = createSkillsHandler(await createFileProvider(skillsDir), {
+      serveOriginalSkillMd: true,
+    });
+    const original = await readFile(
+      join(skillsDir, "pdf-processing", "SKILL.md")
+    );
+
+    const response = await handler(
+      new Request("http://localhost/.well-known/skills/pdf-processing/SKILL.md")
+    );
+    const body = Buffer.from(await response.arrayBuffer());
+
+    expect(body.equals(original)).toBe(true);
+    expect(response.headers.get("ETag")).toBe(
+      `"${createHash("sha256").update(original).digest("hex")}"`
+    );
+  });
+
+  it("reports size and content type for HEAD requests", async () => {
+    const provider = await createFileProvider(skillsDir);
+
+    expect(
+      await provider.getSkillFileStat!("pdf-processing", "scripts/extract.py")
+    ).toMatchObject({
+      size: "print('extract')\n".length,
+      contentType: "text/x-python; charset=utf-8",
+    });
+    expect(
+      await provider.getSkillFileStat!("pdf-processing", "assets/blob")
+    ).toMatchObject({
+      size: PNG.length,
+      contentType: "application/octet-stream",
+    });
+  });
+
+  it("returns null stat for missing files", async () => {
+    const provider = await createFileProvider(skillsDir);
+
+    expect(
+      await provider.getSkillFileStat!("pdf-processing", "missing.txt")
+    ).toBeNull();
+    expect(
+      await provider.getSkillFileStat!("pdf-processing", "scripts")
+    ).toBeNull();
+  });
+});
+
+describe("createFileProvider caching", () => {
+  let dir: string;
+
+  async function writeSkill(name: string, description: string) {
+    await mkdir(join(dir, name), { recursive: true });
+    await writeFile(
+      join(dir, name, "SKILL.md"),
+      `---\nname: ${name}\ndescription: ${description}\n---\n\n# ${name}\n`
+    );
+  }
+
+  async function waitFor(condition: () => boolean, timeout = 3000) {
+    const start = Date.now();
+    while (!condition()) {
+      if (Date.now() - start > timeout) throw new Error("Timed out");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "skills-handler-cache-"));
+    await writeSkill("alpha", "First skill.");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("caches skills until the TTL expires", async () => {
+    const provider = await createFileProvider(dir);
+    expect(await provider.getSkills()).toHaveLength(1);
+
+    await writeSkill("beta", "Second skill.");
+
+    expect(await provider.getSkills()).toHaveLength(1);
+  });
+
+  it("rescans on every request with a zero TTL", async () => {
+    const provider = await createFileProvider(dir, { cacheTtl: 0 });
+    expect(await provider.getSkills()).toHaveLength(1);
+
+    await writeSkill("beta", "Second skill.");
+
+    expect(await provider.getSkills()).toHaveLength(2);
+  });
+
+  it("emits change events on refresh", async () => {
+    const events: SkillChangeEvent[] = [];
+    const provider = await createFileProvider(dir, {
+      cacheTtl: Infinity,
+      onChange: (event) => events.push(event),
+    });
+    await provider.getSkills();
+
+    await writeSkill("beta", "Second skill.");
+    await writeSkill("alpha", "First skill, updated.");
+    await provider.refresh();
+    await rm(join(dir, "beta"), { recursive: true });
+    await provider.refresh();
+
+    expect(events.map(({ type, skillName }) => ({ type, skillName }))).toEqual([
+      { type: "SKILL_CHANGED", skillName: "alpha" },
+      { type: "SKILL_ADDED", skillName: "beta" },
+      { type: "SKILL_REMOVED", skillName: "beta" },
+    ]);
+    expect((await provider.getSkills())[0]?.description).toBe(
+      "First skill, updated."
+    );
+  });
+
+  it("reloads changed skills in watch mode", async () => {
+    const events: SkillChangeEvent[] = [];
+    const provider = await createFileProvider(dir, {
+      watch: true,
+      onChange: (event) => events.push(event),
+    });
+
+    try {
+      await provider.getSkills();
+      await writeSkill("alpha", "Edited while watching.");
+
+      await waitFor(() => events.length > 0);
+
+      expect(events[0]).toMatchObject({
+        type: "SKILL_CHANGED",
+        skillName: "alpha",
+      });
+      expect((await provider.getSkills())[0]?.description).toBe(
+        "Edited while watching."
+      );
+    } finally {
+      provider.close();
+    }
+  });
+});
+
+describe("createFileProvider versions", () => {
+  let dir: string;
+
+  async function writeSkill(skillDir: string, version: string) {
+    await mkdir(join(skillDir, "references"), { recursive: true });
+    await writeFile(
+      join(skillDir, "SKILL.md"),
+      [
+        "---",
+        "name: code-review",
+        "description: Review code for bugs.",
+        "metadata:",
+        `  version: "${version}"`,
+        "---",
+        "",
+        `# Code Review ${version}`,
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      join(skillDir, "references", "CHECKLIST.md"),
+      `# Checklist ${version}\n`
+    );
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "skills-handler-versions-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("takes the version from metadata without listing versions", async () => {
+    await writeSkill(join(dir, "code-review"), "2.0.0");
+    await writeSkill(join(dir, "code-review", "versions", "1.0.0"), "1.0.0");
+
+    const provider = await createFileProvider(dir);
+    const [skill] = await provider.getSkills();
+
+    expect(skill?.version).toBe("2.0.0");
+    expect(skill?.versions).toBeUndefined();
+    expect(skill?.files).toContain("versions/1.0.0/SKILL.md");
+    expect(await provider.getSkillVersion?.("code-review", "1.0.0")).toBeNull();
+  });
+
+  it("reads versions from subdirectories", async () => {
+    await writeSkill(join(dir, "code-review"), "2.0.0");
+    await writeSkill(join(dir, "code-review", "versions", "1.0.0"), "1.0.0");
+    await writeSkill(join(dir, "code-review", "versions", "1.1.0"), "1.1.0");
+
+    const provider = await createFileProvider(dir, { versions: "directories" });
+    const [skill] = await provider.getSkills();
+
+    expect(skill).toMatchObject({
+      version: "2.0.0",
+      versions: ["2.0.0", "1.1.0", "1.0.0"],
+      files: ["SKILL.md", "references/CHECKLIST.md"],
+    });
+
+    const earlier = await provider.getSkillVersion?.("code-review", "1.0.0");
+    expect(earlier).toMatchObject({
+      name: "code-review",
+      version: "1.0.0",
+      body: "# Code Review 1.0.0",
+      files: ["SKILL.md", "references/CHECKLIST.md"],
+    });
+    expect(
+      await provider.getSkillFile(
+        "code-review",
+        "references/CHECKLIST.md",
+        "1.0.0"
+      )
+    ).toBe("# Checklist 1.0.0\n");
+    expect(
+      await provider.getSkillFile("code-review", "references/CHECKLIST.md")
+    ).toBe("# Checklist 2.0.0\n");
+    expect(await provider.getSkillVersion?.("code-review", "3.0.0")).toBeNull();
+  });
+
+  it("serves versioned files through the handler", async () => {
+    await writeSkill(join(dir, "code-review"), "2.0.0");
+    await writeSkill(join(dir, "code-review", "versions", "1.0.0"), "1.0.0");
+    const handler = createSkillsHandler(
+      await createFileProvider(dir, { versions: "directories" })
+    );
+    const base = "http://localhost/.well-known/skills/code-review@1.0.0";
+
+    const file = await handler(
+      new Request(`${base}/references/CHECKLIST.md`)
+    );
+    expect(await file.text()).toBe("# Checklist 1.0.0\n");
+    expect(file.headers.get("ETag")).toBeTruthy();
+
+    const cached = await handler(
+      new Request(`${base}/references/CHECKLIST.md`, {
+        headers: { "If-None-Match": file.headers.get("ETag")! },
+      })
+    );
+    expect(cached.status).toBe(304);
+  });
+
+  it("reads versions from git tags", async (context) => {
+    const run = (...args: string[]) =>
+      execFileSync("git", args, { cwd: dir, stdio: "pipe" });
+    try {
+      run("init", "-q");
+    } catch {
+      context.skip();
+    }
+    run("config", "user.email", "test@example.com");
+    run("config", "user.name", "Test");
+
+    await writeSkill(join(dir, "code-review"), "1.0.0");
+    run("add", "-A");
+    run("commit", "-q", "-m", "Add code-review");
+    run("tag", "code-review@1.0.0");
+    await writeSkill(join(dir, "code-review"), "2.0.0");
+
+    const provider = await createFileProvider(dir, { versions: "git-tags" });
+    const [skill] = await provider.getSkills();
+    expect(skill?.versions).toEqual(["2.0.0", "1.0.0"]);
+
+    const earlier = await provider.getSkillVersion?.("code-review", "1.0.0");
+    expect(earlier).toMatchObject({
+      version: "1.0.0",
+      body: "# Code Review 1.0.0",
+      files: ["SKILL.md", "references/CHECKLIST.md"],
+    });
+    expect(
+      await provider.getSkillFile(
+        "code-review",
+        "references/CHECKLIST.md",
+        "1.0.0"
+      )
+    ).toBe("# Checklist 1.0.0\n");
+    expect(
+      await provider.getSkillFileStat?.(
+        "code-review",
+        "references/CHECKLIST.md",
+        "1.0.0"
+      )
+    ).toMatchObject({ etag: expect.stringMatching(/^[0-9a-f]{40}$/) });
+  });
+
+  it("reads git tags when the skills directory is a repository subfolder", async (context) => {
+    const run = (...args: string[]) =>
+      execFileSync("git", args, { cwd: dir, stdio: "pipe" });
+    try {
+      run("init", "-q");
+    } catch {
+      context.skip();
+    }
+    run("config", "user.email", "test@example.com");
+    run("config", "user.name", "Test");
+
+    const skills = join(dir, "skills");
+    await writeSkill(join(skills, "code-review"), "1.0.0");
+    run("add", "-A");
+    run("commit", "-q", "-m", "Add code-review");
+    run("tag", "code-review@1.0.0");
+    await writeSkill(join(skills, "code-review"), "2.0.0");
+
+    const handler = createSkillsHandler(
+      await createFileProvider(skills, { versions: "git-tags" })
+    );
+    const base = "http://localhost/.well-known/skills/code-review@1.0.0";
+
+    const skillMd = await handler(new Request(`${base}/SKILL.md`));
+    expect(skillMd.status).toBe(200);
+    expect(await skillMd.text()).toContain("# Code Review 1.0.0");
+
+    const file = await handler(new Request(`${base}/references/CHECKLIST.md`));
+    expect(await file.text()).toBe("# Checklist 1.0.0\n");
+  });
+});
+
+describe("createFileProvider ignore rules", () => {
+  let dir: string;
+
+  async function write(path: string, content: string) {
+    await mkdir(join(dir, path, ".."), { recursive: true });
+    await writeFile(join(dir, path), content);
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "skills-handler-ignore-"));
+    await write(
+      "alpha/SKILL.md",
+      "---\nname: alpha\ndescription: First skill.\n---\n\n# alpha\n"
+    );
+    await write("alpha/scripts/run.py", "print('run')\n");
+    await write("alpha/scripts/run.pyc", "compiled");
+    await write("alpha/.DS_Store", "junk");
+    await write("alpha/.env", "SECRET=1");
+    await write("alpha/node_modules/dep/index.js", "module.exports = 1;\n");
+    await write("alpha/__pycache__/run.cpython-312.pyc", "compiled");
+    await write("alpha/notes/draft.md", "# Draft\n");
+    await write("alpha/notes/keep.md", "# Keep\n");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  async function listFiles(options = {}) {
+    const provider = await createFileProvider(dir, options);
+    const [skill] = await provider.getSkills();
+    return skill?.files.sort();
+  }
+
+  it("ignores dotfiles and dependency directories by default", async () => {
+    expect(await listFiles()).toEqual([
+      "SKILL.md",
+      "notes/draft.md",
+      "notes/keep.md",
+      "scripts/run.py",
+    ]);
+  });
+
+  it("applies a .skillsignore in the skill directory", async () => {
+    await write("alpha/.skillsignore", "# drafts\nnotes/\n");
+
+    expect(await listFiles()).toEqual(["SKILL.md", "scripts/run.py"]);
+  });
+
+  it("applies a root .skillsignore relative to the skills directory", async () => {
+    await write(".skillsignore", "alpha/notes/*.md\n!keep.md\n");
+
+    expect(await listFiles()).toEqual([
+      "SKILL.md",
+      "notes/keep.md",
+      "scripts/run.py",
+    ]);
+  });
+
+  it("lets a skill .skillsignore re-include defaults", async () => {
+    await write("alpha/.skillsignore", "!.env\n");
+
+    expect(await listFiles()).toContain(".env");
+  });
+
+  it("filters files with include and exclude globs", async () => {
+    expect(
+      await listFiles({ include: ["scripts/**", "notes/*.md"] })
+    ).toEqual(["SKILL.md", "notes/draft.md", "notes/keep.md", "scripts/run.py"]);
+    expect(await listFiles({ include: ["*.py"] })).toEqual([
+      "SKILL.md",
+      "scripts/run.py",
+    ]);
+    expect(await listFiles({ exclude: ["draft.md", "scripts/"] })).toEqual([
+      "SKILL.md",
+      "notes/keep.md",
+    ]);
+  });
+
+  it("does not serve ignored files", async () => {
+    const provider = await createFileProvider(dir, { exclude: ["notes/"] });
+
+    expect(await provider.getSkillFile("alpha", ".env")).toBeNull();
+    expect(await provider.getSkillFile("alpha", "notes/draft.md")).toBeNull();
+    expect(
+      await provider.getSkillFileStat!("alpha", "node_modules/dep/index.js")
+    ).toBeNull();
+    expect(await provider.getSkillFile("alpha", "scripts/run.py")).toBe(
+      "print('run')\n"
+    );
+  });
+
+  it("always publishes SKILL.md", async () => {
+    expect(await listFiles({ exclude: ["*.md"] })).toEqual([
+      "SKILL.md",
+      "scripts/run.py",
+    ]);
+  });
+});
+
+describe("createFileProvider safeguards", () => {
+  let dir: string;
+  let outside: string;
+  let warnings: SkillWarning[];
+
+  async function write(path: string, content: string) {
+    await mkdir(join(dir, path, ".."), { recursive: true });
+    await writeFile(join(dir, path), content);
+  }
+
+  async function load(options = {}) {
+    const provider = await createFileProvider(dir, {
+      onWarning: (warning) => warnings.push(warning),
+      ...options,
+    });
+    const skills = await provider.getSkills();
+    return { provider, skills };
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "skills-handler-safe-"));
+    outside = await mkdtemp(join(tmpdir(), "skills-handler-outside-"));
+    warnings = [];
+    await write(
+      "alpha/SKILL.md",
+      "---\nname: alpha\ndescription: First skill.\n---\n\n# alpha\n"
+    );
+    await write("alpha/a.txt", "a".repeat(10));
+    await write("alpha/b.txt", "b".repeat(20));
+    await write("alpha/c.txt", "c".repeat(100));
+    await writeFile(join(outside, "secret.txt"), "secret");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+    await rm(outside, { recursive: true, force: true });
+  });
+
+  it("rejects symlinks by default", async () => {
+    await symlink(join(dir, "alpha", "a.txt"), join(dir, "alpha", "link.txt"));
+
+    const { skills } = await load();
+
+    expect(skills[0]?.files).not.toContain("link.txt");
+    expect(warnings).toMatchObject([
+      { type: "SYMLINK_REJECTED", skillName: "alpha", filePath: "link.txt" },
+    ]);
+  });
+
+  it("follows symlinks that stay within the skill directory", async () => {
+    await symlink(join(dir, "alpha", "a.txt"), join(dir, "alpha", "link.txt"));
+    await symlink(join(outside, "secret.txt"), join(dir, "alpha", "secret.txt"));
+    await symlink(outside, join(dir, "alpha", "shared"));
+
+    const { provider, skills } = await load({ symlinks: "within-skill" });
+
+    expect(skills[0]?.files).toContain("link.txt");
+    expect(skills[0]?.files).not.toContain("secret.txt");
+    expect(skills[0]?.files).not.toContain("shared/secret.txt");
+    expect(await provider.getSkillFile("alpha", "link.txt")).toBe("a".repeat(10));
+    expect(await provider.getSkillFile("alpha", "secret.txt")).toBeNull();
+    expect(warnings.map((warning) => warning.filePath).sort()).toEqual([
+      "secret.txt",
+      "shared",
+    ]);
+  });
+
+  it("does not loop on symlink cycles", async () => {
+    await symlink(join(dir, "alpha"), join(dir, "alpha", "self"));
+
+    const { skills } = await load({ symlinks: "within-skill" });
+
+    expect(skills[0]?.files.sort()).toEqual([
+      "SKILL.md",
+      "a.txt",
+      "b.txt",
+      "c.txt",
+    ]);
+  });
+
+  it("checks symlinked skill directories", async () => {
+    await mkdir(join(outside, "beta"));
+    await writeFile(
+      join(outside, "beta", "SKILL.md"),
+      "---\nname: beta\ndescription: Outside.\n---\n"
+    );
+    await symlink(join(outside, "beta"), join(dir, "beta"));
+    await symlink(join(dir, "alpha"), join(dir, "gamma"));
+
+    const { skills } = await load({ symlinks: "within-skill" });
+
+    expect(skills.map((skill) => skill.name)).toEqual(["alpha", "alpha"]);
+    expect(warnings).toMatchObject([
+      { type: "SYMLINK_REJECTED", skillName: "beta" },
+    ]);
+  });
+
+  it("does not serve files replaced by symlinks after a scan", async () => {
+    const { provider } = await load({ cacheTtl: Infinity });
+
+    await rm(join(dir, "alpha", "a.txt"));
+    await symlink(join(outside, "secret.txt"), join(dir, "alpha", "a.txt"));
+
+    expect(await provider.getSkillFile("alpha", "a.txt")).toBeNull();
+    expect(await provider.getSkillFileStat!("alpha", "a.txt")).toBeNull();
+  });
+
+  it("leaves out files over the size limit", async () => {
+    const { provider, skills } = await load({ maxFileSize: 75 });
+
+    expect(skills[0]?.files.sort()).toEqual(["SKILL.md", "a.txt", "b.txt"]);
+    expect(warnings).toMatchObject([
+      { type: "FILE_TOO_LARGE", skillName: "alpha", filePath: "c.txt" },
+    ]);
+    expect(await provider.getSkillFile("alpha", "c.txt")).toBeNull();
+  });
+
+  it("skips skills whose SKILL.md is over the size limit", async () => {
+    const { skills } = await load({ maxFileSize: 5 });
+
+    expect(skills).toEqual([]);
+    expect(warnings).toMatchObject([
+      { type: "FILE_TOO_LARGE", skillName: "alpha", filePath: "SKILL.md" },
+    ]);
+  });
+
+  it("limits the total size of a skill", async () => {
+    const skillMdSize = (await readFile(join(dir, "alpha", "SKILL.md"))).length;
+
+    const { skills } = await load({ maxSkillSize: skillMdSize + 35 });
+
+    expect(skills[0]?.files).toEqual(["SKILL.md", "a.txt", "b.txt"]);
+    expect(warnings).toMatchObject([
+      { type: "SKILL_TOO_LARGE", skillName: "alpha", filePath: "c.txt" },
+    ]);
+  });
+
+  it("reports skills that fail validation", async () => {
+    await write("beta/SKILL.md", "---\nname: beta\ndescription: ''\n---\n");
+
+    const { skills } = await load();
+
+    expect(skills.map((skill) => skill.name)).toEqual(["alpha"]);
+    expect(warnings).toMatchObject([
+      {
+        type: "INVALID_SKILL",
+        skillName: "beta",
+        filePath: "SKILL.md",
+        diagnostics: [{ code: "MISSING_DESCRIPTION", line: 3 }],
+      },
+    ]);
+  });
+
+  it("limits the number of files in a skill", async () => {
+    const { skills } = await load({ maxFiles: 2 });
+
+    expect(skills[0]?.files).toEqual(["SKILL.md", "a.txt"]);
+    expect(warnings).toMatchObject([
+      { type: "TOO_MANY_FILES", skillName: "alpha", filePath: "b.txt" },
+    ]);
+  });
+});
+
+describe("createCompositeProvider", () => {
+  it("resolves file stats from the provider that serves the file", async () => {
+    const staticProvider = createStaticProvider(
+      [
+        {
+          name: "pdf-processing",
+          description: "Override.",
+          body: "# Override",
+          files: ["SKILL.md", "scripts/extract.py"],
+        },
+      ],
+      { "pdf-processing": { "scripts/extract.py": "print('override')\n" } }
+    );
+    const provider = createCompositeProvider([
+      await createFileProvider(skillsDir),
+      staticProvider,
+    ]);
+
+    const getSkillFile = vi.spyOn(staticProvider, "getSkillFile");
+
+    // The static provider has no validators, so they're left to the handler
+    expect(
+      await provider.getSkillFileStat!("pdf-processing", "scripts/extract.py")
+    ).toEqual({});
+    expect(getSkillFile).not.toHaveBeenCalled();
+
+    const handler = createSkillsHandler(provider);
+    const base = "http://localhost/.well-known/skills/pdf-processing";
+    const file = await handler(new Request(`${base}/scripts/extract.py`));
+    const missing = await handler(new Request(`${base}/missing.txt`));
+
+    expect(await file.text()).toBe("print('override')\n");
+    expect(file.headers.get("ETag")).toMatch(/^"[0-9a-f]{64}"$/);
+    expect(getSkillFile).toHaveBeenCalledTimes(2);
+    expect(missing.status).toBe(404);
+  });
+
+  it("uses the stat of a provider with validators", async () => {
+    const provider = createCompositeProvider([
+      createStaticProvider([]),
+      await createFileProvider(skillsDir),
+    ]);
+
+    expect(
+      await provider.getSkillFileStat!("pdf-processing", "scripts/extract.py")
+    ).toMatchObject({ etag: expect.stringMatching(/^[0-9a-f]{64}$/) });
+
+    const files = createCompositeProvider([await createFileProvider(skillsDir)]);
+    expect(
+      await files.getSkillFileStat!("pdf-processing", "missing.txt")
+    ).toBeNull();
+  });
+});
+
+describe("createRemoteProvider", () => {
+  let upstreamSkills: Skill[];
+  let requests: string[];
+
+  const upstream: SkillProvider = {
+    getSkills: () => upstreamSkills,
+    getSkillFile: (skillName, filePath) =>
+      skillName === "pdf-processing" && filePath === "scripts/extract.py"
+        ? "print('extract')"
+        : null,
+  };
+  const upstreamHandler = createSkillsHandler(upstream, {
+    cacheControl: "no-cache",
+  });
+
+  async function fetchUpstream(input: string, init?: RequestInit) {
+    requests.push(new URL(input).pathname);
+    return upstreamHandler(new Request(input, init));
+  }
+
+  beforeEach(() => {
+    requests = [];
+    upstreamSkills = [
+      {
+        name: "pdf-processing",
+        description: "Extract text from PDFs.",
+        body: "# PDF Processing\n\nRun `scripts/extract.py`.",
+        files: ["SKILL.md", "scripts/extract.py"],
+        digests: {
+          "scripts/extract.py": `sha256:${createHash("sha256")
+            .update("print('extract')")
+            .digest("hex")}`,
+        },
+      },
+      {
+        name: "git-workflow",
+        description: "Follow team Git conventions.",
+        body: "# Git Workflow",
+        files: ["SKILL.md"],
+      },
+    ];
+  });
+
+  it("serves skills and files from the upstream endpoint", async () => {
+    const provider = createRemoteProvider("https://upstream.example.com", {
+      fetch: fetchUpstream,
+    });
+    const handler = createSkillsHandler(provider);
+
+    const index = await handler(
+      new Request("https://example.com/.well-known/skills/index.json")
+    );
+    const { skills } = await index.json();
+    expect(skills.map((s: { name: string }) => s.name)).toEqual([
+      "pdf-processing",
+      "git-workflow",
+    ]);
+
+    const file = await handler(
+      new Request(
+        "https://example.com/.well-known/skills/pdf-processing/scripts/extract.py"
+      )
+    );
+    expect(file.headers.get("Content-Type")).toBe(
+      "text/x-python; charset=utf-8"
+    );
+    expect(await file.text()).toBe("print('extract')");
+  });
+
+  it("prefixes and filters skill names", async () => {
+    const provider = createRemoteProvider("https://upstream.example.com", {
+      fetch: fetchUpstream,
+      prefix: "acme-",
+      filter: ["pdf-processing"],
+    });
+    const handler = createSkillsHandler(provider, {
+      serveOriginalSkillMd: true,
+    });
+
+    const skills = await provider.getSkills();
+    expect(skills.map((s) => s.name)).toEqual(["acme-pdf-processing"]);
+    expect(
+      await provider.getSkillFile("pdf-processing", "scripts/extract.py")
+    ).toBeNull();
+
+    const skillMd = await handler(
+      new Request(
+        "https://example.com/.well-known/skills/acme-pdf-processing/SKILL.md"
+      )
+    );
+    expect(await skillMd.text()).toContain("name: acme-pdf-processing");
+
+    const predicate = createRemoteProvider("https://upstream.example.com", {
+      fetch: fetchUpstream,
+      filter: (entry) => entry.name.startsWith("git-"),
+    });
+    expect((await predicate.getSkills()).map((s) => s.name)).toEqual([
+      "git-workflow",
+    ]);
+  });
+
+  it("caches skills for cacheTtl", async () => {
+    const provider = createRemoteProvider("https://upstream.example.com", {
+      fetch: fetchUpstream,
+    });
+
+    await provider.getSkills();
+    const count = requests.length;
+    await provider.getSkills();
+    expect(requests).toHaveLength(count);
+
+    upstreamSkills[1]!.description = "Updated.";
+    await provider.refresh();
+    const skills = await provider.getSkills();
+    expect(skills[1]!.description).toBe("Updated.");
+  });
+
+  it("serves stale skills while revalidating", async () => {
+    const provider = createRemoteProvider("https://upstream.example.com", {
+      fetch: fetchUpstream,
+      cacheTtl: 0,
+      staleWhileRevalidate: 60000,
+    });
+    await provider.getSkills();
+
+    upstreamSkills[1]!.description = "Updated.";
+    const stale = await provider.getSkills();
+    expect(stale[1]!.description).toBe("Follow team Git conventions.");
+
+    await vi.waitFor(async () => {
+      const fresh = await provider.getSkills();
+      expect(fresh[1]!.description).toBe("Updated.");
+    });
+  });
+
+  it("keeps stale skills when the upstream fails", async () => {
+    const onError = vi.fn();
+    let available = true;
+    const provider = createRemoteProvider("https://upstream.example.com", {
+      fetch: async (input, init) => {
+        if (!available) throw new TypeError("fetch failed");
+        return fetchUpstream(input, init);
+      },
+      cacheTtl: 0,
+      staleWhileRevalidate: 60000,
+      onError,
+    });
+    await provider.getSkills();
+
+    available = false;
+    const skills = await provider.getSkills();
+
+    expect(skills).toHaveLength(2);
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledOnce());
+    expect(onError.mock.calls[0]![0].message).toContain(
+      "Failed to refresh remote skills"
+    );
+  });
+
+  it("aborts upstream requests after the timeout", async () => {
+    const provider = createRemoteProvider("https://upstream.example.com", {
+      fetch: (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () =>
+            reject(init.signal!.reason)
+          );
+        }),
+      timeout: 10,
+    });
+
+    await expect(provider.getSkills()).rejects.toMatchObject({
+      code: "NETWORK_ERROR",
+    });
+  });
+
+  it("answers conditional requests from index digests", async () => {
+    const provider = createRemoteProvider("https://upstream.example.com", {
+      fetch: fetchUpstream,
+    });
+    const handler = createSkillsHandler(provider);
+    const url =
+      "https://example.com/.well-known/skills/pdf-processing/scripts/extract.py";
+
+    const first = await handler(new Request(url));
+    const etag = first.headers.get("ETag")!;
+    const count = requests.length;
+
+    const second = await handler(
+      new Request(url, { headers: { "If-None-Match": etag } })
+    );
+    expect(second.status).toBe(304);
+    expect(requests).toHaveLength(count);
+  });
+});
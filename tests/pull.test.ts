@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  createFileProvider,
+  createSkillsHandler,
+  pullSkills,
+} from "../src/index";
+import type { Skill, SkillProvider, SkillsLockfile } from "../src/index";
+
+const logo = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+let upstreamSkills: Skill[];
+let upstreamFiles: Record<string, Record<string, string | Uint8Array>>;
+
+const upstream: SkillProvider = {
+  getSkills: () => upstreamSkills,
+  getSkillFile: (skillName, filePath) =>
+    upstreamFiles[skillName]?.[filePath] ?? null,
+};
+const handler = createSkillsHandler(upstream, {
+  cacheControl: "no-cache",
+  serveOriginalSkillMd: true,
+});
+const fetchUpstream = async (input: string, init?: RequestInit) =>
+  handler(new Request(input, init));
+
+let skillsDir: string;
+
+beforeEach(async () => {
+  skillsDir = await mkdtemp(join(tmpdir(), "skills-handler-pull-"));
+  upstreamSkills = [
+    {
+      name: "code-review",
+      description: "Review code for bugs.",
+      body: "# Code Review\n\nSee `references/CHECKLIST.md` and `assets/logo.png`.",
+      files: ["SKILL.md", "references/CHECKLIST.md", "assets/logo.png"],
+    },
+    {
+      name: "git-workflow",
+      description: "Follow team Git conventions.",
+      body: "# Git Workflow",
+      files: ["SKILL.md"],
+    },
+  ];
+  upstreamFiles = {
+    "code-review": {
+      "references/CHECKLIST.md": "# Checklist",
+      "assets/logo.png": logo,
+    },
+  };
+});
+
+afterEach(async () => {
+  await rm(skillsDir, { recursive: true, force: true });
+});
+
+async function readLock(): Promise<SkillsLockfile> {
+  return JSON.parse(await readFile(join(skillsDir, "skills-lock.json"), "utf-8"));
+}
+
+describe("pullSkills", () => {
+  it("downloads skills in the file provider layout", async () => {
+    const result = await pullSkills("https://example.com", skillsDir, {
+      fetch: fetchUpstream,
+    });
+
+    expect(result.source).toBe(
+      "https://example.com/.well-known/skills/index.json"
+    );
+    expect(result.skills.map(({ name, status }) => ({ name, status }))).toEqual(
+      [
+        { name: "code-review", status: "added" },
+        { name: "git-workflow", status: "added" },
+      ]
+    );
+    expect(
+      new Uint8Array(
+        await readFile(join(skillsDir, "code-review", "assets", "logo.png"))
+      )
+    ).toEqual(logo);
+
+    const provider = await createFileProvider(skillsDir);
+    const skills = await provider.getSkills();
+    expect(skills.map((s) => s.name).sort()).toEqual([
+      "code-review",
+      "git-workflow",
+    ]);
+    expect(skills.find((s) => s.name === "code-review")?.files).toEqual([
+      "SKILL.md",
+      "assets/logo.png",
+      "references/CHECKLIST.md",
+    ]);
+  });
+
+  it("records the source and digests in the lockfile", async () => {
+    const result = await pullSkills("https://example.com", skillsDir, {
+      fetch: fetchUpstream,
+      names: ["code-review"],
+    });
+
+    const lock = await readLock();
+    expect(Object.keys(lock.skills)).toEqual(["code-review"]);
+    expect(lock.skills["code-review"]).toMatchObject({
+      source: "https://example.com/.well-known/skills/index.json",
+      digest: result.skills[0]!.digest,
+      files: {
+        "SKILL.md": expect.stringMatching(/^sha256:/),
+        "references/CHECKLIST.md": expect.stringMatching(/^sha256:/),
+        "assets/logo.png": expect.stringMatching(/^sha256:/),
+      },
+    });
+  });
+
+  it("refreshes changed skills with update", async () => {
+    await pullSkills("https://example.com", skillsDir, {
+      fetch: fetchUpstream,
+    });
+
+    upstreamFiles["code-review"]!["references/CHECKLIST.md"] = "# Updated";
+
+    const skipped = await pullSkills("https://example.com", skillsDir, {
+      fetch: fetchUpstream,
+    });
+    expect(skipped.skills.map((s) => s.status)).toEqual(["skipped", "skipped"]);
+
+    const updated = await pullSkills("https://example.com", skillsDir, {
+      fetch: fetchUpstream,
+      update: true,
+    });
+    expect(updated.skills.map((s) => s.status)).toEqual([
+      "updated",
+      "unchanged",
+    ]);
+    expect(
+      await readFile(
+        join(skillsDir, "code-review", "references", "CHECKLIST.md"),
+        "utf-8"
+      )
+    ).toBe("# Updated");
+  });
+
+  it("does not overwrite local skills unless forced", async () => {
+    await mkdir(join(skillsDir, "git-workflow"));
+    await writeFile(join(skillsDir, "git-workflow", "SKILL.md"), "local");
+
+    const result = await pullSkills("https://example.com", skillsDir, {
+      fetch: fetchUpstream,
+      names: ["git-workflow"],
+    });
+    expect(result.skills[0]).toMatchObject({ status: "skipped" });
+    expect(
+      await readFile(join(skillsDir, "git-workflow", "SKILL.md"), "utf-8")
+    ).toBe("local");
+
+    const forced = await pullSkills("https://example.com", skillsDir, {
+      fetch: fetchUpstream,
+      names: ["git-workflow"],
+      force: true,
+    });
+    expect(forced.skills[0]).toMatchObject({ status: "updated" });
+  });
+
+  it("does not write skills that fail validation", async () => {
+    upstreamSkills[0]!.body =
+      "# Code Review\n\nSee [missing](MISSING.md), `references/CHECKLIST.md` and `assets/logo.png`.";
+
+    const result = await pullSkills("https://example.com", skillsDir, {
+      fetch: fetchUpstream,
+      names: ["code-review", "unknown"],
+    });
+
+    expect(result.skills).toMatchObject([
+      {
+        name: "code-review",
+        status: "failed",
+        diagnostics: [{ code: "BROKEN_LINK" }],
+      },
+      { name: "unknown", status: "failed" },
+    ]);
+    expect(await readdir(skillsDir)).toEqual(["skills-lock.json"]);
+    expect((await readLock()).skills).toEqual({});
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  createMemoryRateLimitStore,
+  createSkillsHandler,
+  createStaticProvider,
+} from "../src/index";
+import type { RateLimitStore, SkillsEvent } from "../src/index";
+
+const provider = createStaticProvider([
+  {
+    name: "git-workflow",
+    description: "Follow team Git conventions for branching and commits.",
+    body: "# Git Workflow",
+    files: ["SKILL.md"],
+  },
+]);
+
+const indexUrl = "http://localhost/.well-known/skills/index.json";
+
+function fromIp(ip: string, init?: RequestInit): Request {
+  return new Request(indexUrl, {
+    ...init,
+    headers: { "X-Forwarded-For": `10.0.0.1, ${ip}`, ...init?.headers },
+  });
+}
+
+describe("createMemoryRateLimitStore", () => {
+  const options = { limit: 2, window: 1000 };
+
+  it("allows a burst of limit requests, then refills over the window", () => {
+    const store = createMemoryRateLimitStore();
+
+    expect(store.consume("a", { ...options, now: 0 })).toEqual({
+      allowed: true,
+      remaining: 1,
+      retryAfter: 0,
+      reset: 500,
+    });
+    expect(store.consume("a", { ...options, now: 0 })).toMatchObject({
+      allowed: true,
+      remaining: 0,
+    });
+    expect(store.consume("a", { ...options, now: 100 })).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfter: 400,
+      reset: 900,
+    });
+    expect(store.consume("a", { ...options, now: 500 })).toMatchObject({
+      allowed: true,
+    });
+  });
+
+  it("keeps a bucket per key", () => {
+    const store = createMemoryRateLimitStore();
+    store.consume("a", { ...options, now: 0 });
+    store.consume("a", { ...options, now: 0 });
+
+    expect(store.consume("a", { ...options, now: 0 })).toMatchObject({
+      allowed: false,
+    });
+    expect(store.consume("b", { ...options, now: 0 })).toMatchObject({
+      allowed: true,
+    });
+  });
+});
+
+describe("rate limiting", () => {
+  it("is disabled by default", async () => {
+    const handler = createSkillsHandler(provider);
+    const response = await handler(fromIp("203.0.113.1"));
+
+    expect(response.headers.has("RateLimit-Limit")).toBe(false);
+  });
+
+  it("throttles clients by IP with 429 and RateLimit headers", async () => {
+    vi.useFakeTimers({ now: 0, toFake: ["Date"] });
+    const onEvent = vi.fn();
+    const handler = createSkillsHandler(provider, {
+      rateLimit: { limit: 2, window: 60000 },
+      onEvent,
+    });
+
+    const first = await handler(fromIp("203.0.113.1"));
+    expect(first.status).toBe(200);
+    expect(first.headers.get("RateLimit-Limit")).toBe("2");
+    expect(first.headers.get("RateLimit-Remaining")).toBe("1");
+    expect(first.headers.get("RateLimit-Reset")).toBe("30");
+    expect(first.headers.get("RateLimit-Policy")).toBe("2;w=60");
+
+    await handler(fromIp("203.0.113.1"));
+    const throttled = await handler(fromIp("203.0.113.1"));
+
+    expect(throttled.status).toBe(429);
+    expect(await throttled.json()).toEqual({ error: "Too many requests" });
+    expect(throttled.headers.get("Retry-After")).toBe("30");
+    expect(throttled.headers.get("RateLimit-Remaining")).toBe("0");
+    expect(throttled.headers.get("Cache-Control")).toBe("no-store");
+    expect(throttled.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(throttled.headers.get("Access-Control-Expose-Headers")).toContain(
+      "Retry-After"
+    );
+
+    const otherClient = await handler(fromIp("203.0.113.2"));
+    expect(otherClient.status).toBe(200);
+
+    const events = onEvent.mock.calls.map(([event]) => event as SkillsEvent);
+    expect(events.filter((e) => e.type === "RATE_LIMITED")).toEqual([
+      expect.objectContaining({
+        type: "RATE_LIMITED",
+        path: "/.well-known/skills/index.json",
+        key: "203.0.113.1",
+        retryAfter: 30000,
+      }),
+    ]);
+    vi.useRealTimers();
+  });
+
+  it("ignores client-supplied X-Forwarded-For entries", async () => {
+    const handler = createSkillsHandler(provider, { rateLimit: { limit: 2 } });
+    const statuses: number[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      const response = await handler(
+        new Request(indexUrl, {
+          headers: { "X-Forwarded-For": `198.51.100.${i}, 203.0.113.1` },
+        })
+      );
+      statuses.push(response.status);
+    }
+
+    expect(statuses).toEqual([200, 200, 429, 429, 429]);
+  });
+
+  it("doesn't limit requests without an IP, warning once", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const onEvent = vi.fn();
+    const handler = createSkillsHandler(provider, {
+      rateLimit: { limit: 2 },
+      onEvent,
+    });
+    const statuses: number[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      statuses.push((await handler(new Request(indexUrl))).status);
+    }
+
+    expect(statuses).toEqual([200, 200, 200, 200, 200]);
+    expect(onEvent).not.toHaveBeenCalledWith(
+      expect.objectContaining({ type: "RATE_LIMITED" })
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]![0]).toContain("X-Forwarded-For");
+    warn.mockRestore();
+  });
+
+  it("keys requests by header or function", async () => {
+    const byHeader = createSkillsHandler(provider, {
+      rateLimit: { limit: 1, key: { header: "X-Api-Key" } },
+    });
+    const withKey = { headers: { "X-Api-Key": "key-1" } };
+
+    expect((await byHeader(new Request(indexUrl, withKey))).status).toBe(200);
+    expect((await byHeader(new Request(indexUrl, withKey))).status).toBe(429);
+    // Requests without the header aren't limited
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect((await byHeader(new Request(indexUrl))).status).toBe(200);
+    expect((await byHeader(new Request(indexUrl))).status).toBe(200);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]![0]).toContain("X-Api-Key");
+
+    const byFunction = createSkillsHandler(provider, {
+      rateLimit: {
+        limit: 1,
+        key: (request) => new URL(request.url).searchParams.get("tenant"),
+      },
+    });
+    expect((await byFunction(new Request(`${indexUrl}?tenant=a`))).status).toBe(
+      200
+    );
+    expect((await byFunction(new Request(`${indexUrl}?tenant=a`))).status).toBe(
+      429
+    );
+    expect((await byFunction(new Request(`${indexUrl}?tenant=b`))).status).toBe(
+      200
+    );
+    // A function returning null exempts the request
+    expect((await byFunction(new Request(indexUrl))).status).toBe(200);
+    expect((await byFunction(new Request(indexUrl))).status).toBe(200);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("does not count CORS preflights", async () => {
+    const handler = createSkillsHandler(provider, { rateLimit: { limit: 1 } });
+
+    const preflight = await handler(fromIp("203.0.113.1", { method: "OPTIONS" }));
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.has("RateLimit-Limit")).toBe(false);
+    expect((await handler(fromIp("203.0.113.1"))).status).toBe(200);
+  });
+
+  it("uses a custom store and lets requests through when it fails", async () => {
+    const consume = vi.fn<Parameters<RateLimitStore["consume"]>>(async () => ({
+      allowed: false,
+      remaining: 0,
+      retryAfter: 1500,
+      reset: 60000,
+    }));
+    const handler = createSkillsHandler(provider, {
+      rateLimit: { limit: 10, window: 1000, store: { consume } },
+    });
+
+    const throttled = await handler(fromIp("203.0.113.1"));
+    expect(throttled.status).toBe(429);
+    expect(throttled.headers.get("Retry-After")).toBe("2");
+    expect(consume).toHaveBeenCalledWith("203.0.113.1", {
+      limit: 10,
+      window: 1000,
+      now: expect.any(Number),
+    });
+
+    const onEvent = vi.fn();
+    const failing = createSkillsHandler(provider, {
+      rateLimit: {
+        store: {
+          consume: async () => {
+            throw new Error("Connection refused");
+          },
+        },
+      },
+      onEvent,
+    });
+    const response = await failing(fromIp("203.0.113.1"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.has("RateLimit-Limit")).toBe(false);
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "ERROR", context: { rateLimit: true } })
+    );
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import matter from "gray-matter";
+import { reconstructSkillMd } from "../src/index";
+import type { Skill } from "../src/index";
+
+const baseSkill: Skill = {
+  name: "yaml-safety",
+  description: "A plain description.",
+  body: "# YAML Safety\n\nInstructions.",
+  files: ["SKILL.md"],
+};
+
+const adversarialDescriptions = [
+  "Use when: the user asks about YAML",
+  "Handles # comments and trailing # markers",
+  '"Quoted" descriptions with "double quotes"',
+  "It's got 'single quotes' too",
+  "- starts like a list item",
+  "Line one\nLine two\n\nLine four",
+  "  leading and trailing whitespace  ",
+  "true",
+  "null",
+  "1.0",
+  "2024-06-01",
+  "2024-06-01T12:30:00Z",
+  "1_000",
+  "12:30:00",
+  "yes",
+  "off",
+  "[not, a, list]",
+  "{not: a map}",
+  "&anchor *alias !tag",
+  "> folded-looking | literal-looking",
+  "% directive-looking @ reserved ` backtick",
+  "---\nlooks like a document separator\n...",
+  "Tab\tseparated and unicode: café ✓",
+];
+
+function roundTrip(skill: Skill) {
+  const parsed = matter(reconstructSkillMd(skill));
+  return { data: parsed.data, body: parsed.content };
+}
+
+describe("reconstructSkillMd", () => {
+  for (const description of adversarialDescriptions) {
+    it(`round-trips description ${JSON.stringify(description)}`, () => {
+      const { data } = roundTrip({ ...baseSkill, description });
+
+      expect(data).toEqual({ name: baseSkill.name, description });
+    });
+  }
+
+  it("round-trips optional frontmatter fields", () => {
+    const skill: Skill = {
+      ...baseSkill,
+      license: "Proprietary: see LICENSE.txt",
+      compatibility: "Requires git >= 2.40 # and network access",
+      "allowed-tools": "Bash(git:*) Read",
+      metadata: {
+        author: "platform-team",
+        version: "1.0",
+        released: "2024-06-01",
+        build: "1_000",
+        "key: with colon": "value\nwith newline",
+      },
+    };
+
+    const { data } = roundTrip(skill);
+
+    expect(data).toEqual({
+      name: skill.name,
+      description: skill.description,
+      license: skill.license,
+      compatibility: skill.compatibility,
+      "allowed-tools": skill["allowed-tools"],
+      metadata: skill.metadata,
+    });
+  });
+
+  it("round-trips extra frontmatter fields", () => {
+    const skill: Skill = {
+      ...baseSkill,
+      metadata: { author: "platform-team" },
+      extras: {
+        owner: "docs-team",
+        released: "2024-06-01",
+        tags: ["pdf", "text"],
+        "x-config": { retries: 3, strict: true, fallback: null },
+      },
+    };
+
+    const { data } = roundTrip(skill);
+
+    expect(data).toEqual({
+      name: skill.name,
+      description: skill.description,
+      metadata: skill.metadata,
+      ...skill.extras,
+    });
+  });
+
+  it("leaves out extras that collide with fields or aren't JSON", () => {
+    const { data } = roundTrip({
+      ...baseSkill,
+      extras: {
+        name: "other-name",
+        checked: new Date(0),
+        ratio: Infinity,
+        owner: "docs-team",
+      },
+    });
+
+    expect(data).toEqual({
+      name: baseSkill.name,
+      description: baseSkill.description,
+      owner: "docs-team",
+    });
+  });
+
+  it("preserves the body after the frontmatter", () => {
+    const skill = { ...baseSkill, body: "# Title\n\n---\n\nAfter a rule." };
+    const { body } = roundTrip(skill);
+
+    expect(body.trim()).toBe(skill.body);
+  });
+
+  it("omits undefined optional fields", () => {
+    expect(reconstructSkillMd(baseSkill)).toBe(
+      "---\nname: yaml-safety\ndescription: A plain description.\n---\n\n# YAML Safety\n\nInstructions."
+    );
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { toSarif } from "../src/lib/sarif";
+import type { SkillReport } from "../src/lib/sarif";
+
+const reports: SkillReport[] = [
+  {
+    name: "pdf",
+    path: "/repo/skills/pdf",
+    skillName: "pdf-processing",
+    valid: true,
+    diagnostics: [
+      {
+        code: "NAME_MISMATCH",
+        severity: "warning",
+        message: 'Skill name "pdf-processing" doesn\'t match directory name "pdf"',
+        file: "SKILL.md",
+        line: 2,
+        field: "name",
+      },
+    ],
+  },
+  {
+    name: "broken",
+    path: "/repo/skills/broken",
+    valid: false,
+    diagnostics: [
+      {
+        code: "MISSING_FRONTMATTER",
+        severity: "error",
+        message: "SKILL.md must start with YAML frontmatter",
+      },
+      {
+        code: "BROKEN_LINK",
+        severity: "error",
+        message: "Link to references/GUIDE.md doesn't match a file",
+        file: "references/INDEX.md",
+        line: 7,
+      },
+    ],
+  },
+];
+
+interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version?: string;
+        rules: { id: string; shortDescription: { text: string } }[];
+      };
+    };
+    results: {
+      ruleId: string;
+      ruleIndex: number;
+      level: string;
+      message: { text: string };
+      locations: {
+        physicalLocation: {
+          artifactLocation: { uri: string };
+          region?: { startLine: number };
+        };
+      }[];
+    }[];
+  }[];
+}
+
+describe("toSarif", () => {
+  it("produces a SARIF 2.1.0 log with one rule per diagnostic code", () => {
+    const log = toSarif(reports, { cwd: "/repo", toolVersion: "1.2.3" }) as SarifLog;
+
+    expect(log.$schema).toBe("https://json.schemastore.org/sarif-2.1.0.json");
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs).toHaveLength(1);
+
+    const { driver } = log.runs[0]!.tool;
+    expect(driver).toMatchObject({ name: "skills-handler", version: "1.2.3" });
+    expect(driver.rules.map((rule) => rule.id)).toEqual([
+      "BROKEN_LINK",
+      "MISSING_FRONTMATTER",
+      "NAME_MISMATCH",
+    ]);
+    expect(driver.rules[0]!.shortDescription.text).toBeTruthy();
+  });
+
+  it("reports each diagnostic with its rule and location", () => {
+    const { results } = (toSarif(reports, { cwd: "/repo" }) as SarifLog).runs[0]!;
+
+    expect(results).toEqual([
+      {
+        ruleId: "NAME_MISMATCH",
+        ruleIndex: 2,
+        level: "warning",
+        message: { text: reports[0]!.diagnostics[0]!.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "skills/pdf/SKILL.md" },
+              region: { startLine: 2 },
+            },
+          },
+        ],
+      },
+      {
+        ruleId: "MISSING_FRONTMATTER",
+        ruleIndex: 1,
+        level: "error",
+        message: { text: "SKILL.md must start with YAML frontmatter" },
+        // Diagnostics without a file or line point at SKILL.md
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "skills/broken/SKILL.md" },
+            },
+          },
+        ],
+      },
+      {
+        ruleId: "BROKEN_LINK",
+        ruleIndex: 0,
+        level: "error",
+        message: { text: "Link to references/GUIDE.md doesn't match a file" },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: { uri: "skills/broken/references/INDEX.md" },
+              region: { startLine: 7 },
+            },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reports warnings as errors in strict mode", () => {
+    const { results } = (
+      toSarif(reports, { cwd: "/repo", strict: true }) as SarifLog
+    ).runs[0]!;
+
+    expect(results.map((result) => result.level)).toEqual([
+      "error",
+      "error",
+      "error",
+    ]);
+  });
+
+  it("produces an empty run without diagnostics", () => {
+    const log = toSarif([], { cwd: "/repo" }) as SarifLog;
+
+    expect(log.runs[0]!.tool.driver.rules).toEqual([]);
+    expect(log.runs[0]!.results).toEqual([]);
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest";
 import {
   isValidSkillName,
   isValidFilePath,
+  isValidSkillVersion,
   validateSkillFrontmatter,
   SKILL_NAME_PATTERN,
 } from "../src/types";
@@ -76,6 +77,24 @@ describe("isValidFilePath", () => {
   });
 });
 
+describe("isValidSkillVersion", () => {
+  it("accepts version strings", () => {
+    expect(isValidSkillVersion("1.0.0")).toBe(true);
+    expect(isValidSkillVersion("v2")).toBe(true);
+    expect(isValidSkillVersion("1.0.0-beta.1+build.5")).toBe(true);
+    expect(isValidSkillVersion("2024_06_01")).toBe(true);
+  });
+
+  it("rejects versions that aren't URL-safe path segments", () => {
+    expect(isValidSkillVersion("")).toBe(false);
+    expect(isValidSkillVersion("-1")).toBe(false);
+    expect(isValidSkillVersion(".hidden")).toBe(false);
+    expect(isValidSkillVersion("1.0/2")).toBe(false);
+    expect(isValidSkillVersion("1@2")).toBe(false);
+    expect(isValidSkillVersion("1".repeat(65))).toBe(false);
+  });
+});
+
 describe("validateSkillFrontmatter", () => {
   it("accepts valid frontmatter", () => {
     expect(
@@ -129,6 +148,35 @@ describe("validateSkillFrontmatter", () => {
     ).toBe(false);
   });
 
+  it("accepts optional specification fields", () => {
+    expect(
+      validateSkillFrontmatter({
+        name: "git-workflow",
+        description: "A valid description",
+        license: "MIT",
+        compatibility: "Requires git",
+        "allowed-tools": "Bash(git:*) Read",
+        metadata: { author: "platform-team", version: "1.0" },
+      })
+    ).toBe(true);
+  });
+
+  it("rejects invalid optional fields", () => {
+    const base = { name: "git-workflow", description: "A description" };
+
+    expect(validateSkillFrontmatter({ ...base, license: 1 })).toBe(false);
+    expect(
+      validateSkillFrontmatter({ ...base, compatibility: "x".repeat(501) })
+    ).toBe(false);
+    expect(
+      validateSkillFrontmatter({ ...base, "allowed-tools": ["Read"] })
+    ).toBe(false);
+    expect(validateSkillFrontmatter({ ...base, metadata: ["a"] })).toBe(false);
+    expect(
+      validateSkillFrontmatter({ ...base, metadata: { version: 1 } })
+    ).toBe(false);
+  });
+
   it("rejects non-object input", () => {
     expect(validateSkillFrontmatter(null)).toBe(false);
     expect(validateSkillFrontmatter(undefined)).toBe(false);
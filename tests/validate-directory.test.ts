@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { validateSkillsDirectory } from "../src/lib/validate-directory";
+
+describe("validateSkillsDirectory", () => {
+  let dir: string;
+
+  async function writeSkill(skillDir: string, version: string) {
+    await mkdir(join(skillDir, "references"), { recursive: true });
+    await writeFile(
+      join(skillDir, "SKILL.md"),
+      [
+        "---",
+        "name: code-review",
+        "description: Review code for bugs.",
+        "metadata:",
+        `  version: "${version}"`,
+        "---",
+        "",
+        `# Code Review ${version}`,
+        "",
+        "Follow [the checklist](references/CHECKLIST.md).",
+        "",
+      ].join("\n")
+    );
+    await writeFile(
+      join(skillDir, "references", "CHECKLIST.md"),
+      `# Checklist ${version}\n`
+    );
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "skills-handler-validate-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("validates earlier versions as skills of their own", async () => {
+    await writeSkill(join(dir, "code-review"), "2.0.0");
+    await writeSkill(join(dir, "code-review", "versions", "1.0.0"), "1.0.0");
+    await writeSkill(join(dir, "code-review", "versions", "1.1.0"), "1.1.0");
+
+    const reports = await validateSkillsDirectory(dir);
+
+    expect(reports).toEqual([
+      {
+        name: "code-review",
+        path: join(dir, "code-review"),
+        skillName: "code-review",
+        valid: true,
+        diagnostics: [],
+      },
+      {
+        name: "code-review@1.0.0",
+        path: join(dir, "code-review", "versions", "1.0.0"),
+        skillName: "code-review",
+        version: "1.0.0",
+        valid: true,
+        diagnostics: [],
+      },
+      {
+        name: "code-review@1.1.0",
+        path: join(dir, "code-review", "versions", "1.1.0"),
+        skillName: "code-review",
+        version: "1.1.0",
+        valid: true,
+        diagnostics: [],
+      },
+    ]);
+  });
+
+  it("reports problems in earlier versions", async () => {
+    await writeSkill(join(dir, "code-review"), "2.0.0");
+    await writeSkill(join(dir, "code-review", "versions", "1.0.0"), "1.0.0");
+    await rm(join(dir, "code-review", "versions", "1.0.0", "references"), {
+      recursive: true,
+    });
+
+    const [latest, earlier] = await validateSkillsDirectory(dir);
+
+    expect(latest!.diagnostics).toEqual([]);
+    expect(earlier!.valid).toBe(false);
+    expect(earlier!.diagnostics.map((d) => d.code)).toEqual(["BROKEN_LINK"]);
+  });
+
+  it("keeps a versions directory without versions in the skill", async () => {
+    await writeSkill(join(dir, "code-review"), "2.0.0");
+    await mkdir(join(dir, "code-review", "versions"));
+    await writeFile(join(dir, "code-review", "versions", "NOTES.md"), "# Notes\n");
+
+    const reports = await validateSkillsDirectory(dir);
+
+    expect(reports).toHaveLength(1);
+    expect(reports[0]!.diagnostics.map((d) => d.code)).toEqual([
+      "UNREFERENCED_FILE",
+    ]);
+  });
+
+  it("reports skills in different directories that share a name", async () => {
+    await writeSkill(join(dir, "code-review"), "2.0.0");
+    await writeSkill(join(dir, "review"), "1.0.0");
+
+    const reports = await validateSkillsDirectory(dir);
+
+    expect(
+      reports.map((report) => report.diagnostics.map((d) => d.code))
+    ).toEqual([["DUPLICATE_NAME"], ["NAME_MISMATCH", "DUPLICATE_NAME"]]);
+  });
+});
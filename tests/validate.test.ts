@@ -0,0 +1,408 @@
+import { describe, it, expect } from "vitest";
+import {
+  createSkillsHandler,
+  createStaticProvider,
+  SkillValidationError,
+  validateSkill,
+} from "../src/index";
+import type { Skill, SkillProvider } from "../src/index";
+
+const VALID_SKILL_MD = [
+  "---",
+  "name: pdf-processing",
+  "description: Extract text from PDFs.",
+  "metadata:",
+  "  author: docs-team",
+  "---",
+  "",
+  "# PDF Processing",
+  "",
+].join("\n");
+
+describe("validateSkill with SKILL.md source", () => {
+  it("returns the parsed frontmatter and body", () => {
+    const result = validateSkill(VALID_SKILL_MD);
+
+    expect(result).toEqual({
+      valid: true,
+      diagnostics: [],
+      frontmatter: {
+        name: "pdf-processing",
+        description: "Extract text from PDFs.",
+        metadata: { author: "docs-team" },
+      },
+      body: "\n# PDF Processing\n",
+    });
+  });
+
+  it("reports field problems with line numbers", () => {
+    const source = [
+      "---",
+      "description: Extract text from PDFs.",
+      "name: PDF_Processing",
+      "compatibility: 1",
+      "---",
+      "",
+    ].join("\n");
+
+    const { valid, diagnostics, frontmatter } = validateSkill(source);
+
+    expect(valid).toBe(false);
+    expect(frontmatter).toBeUndefined();
+    expect(diagnostics).toMatchObject([
+      {
+        code: "INVALID_NAME",
+        severity: "error",
+        file: "SKILL.md",
+        line: 3,
+        field: "name",
+      },
+      {
+        code: "INVALID_FIELD",
+        severity: "warning",
+        line: 4,
+        field: "compatibility",
+      },
+    ]);
+  });
+
+  it("serves skills with invalid optional fields without those fields", () => {
+    const source = [
+      "---",
+      "name: pdf-processing",
+      "description: Extract text from PDFs.",
+      "license: 2",
+      "compatibility: Requires poppler",
+      "metadata:",
+      "  author: docs-team",
+      "  version: 1.2",
+      "---",
+      "",
+    ].join("\n");
+
+    const { valid, diagnostics, frontmatter } = validateSkill(source);
+
+    expect(valid).toBe(true);
+    expect(frontmatter).toEqual({
+      name: "pdf-processing",
+      description: "Extract text from PDFs.",
+      compatibility: "Requires poppler",
+      metadata: { author: "docs-team" },
+    });
+    expect(diagnostics).toMatchObject([
+      { code: "INVALID_FIELD", severity: "warning", line: 4, field: "license" },
+      { code: "INVALID_FIELD", severity: "warning", line: 6, field: "metadata" },
+    ]);
+  });
+
+  it("reports missing and oversized fields", () => {
+    const missing = validateSkill("---\n---\n# Empty\n");
+    expect(missing.diagnostics.map((d) => d.code)).toEqual([
+      "MISSING_NAME",
+      "MISSING_DESCRIPTION",
+    ]);
+
+    const long = validateSkill(
+      `---\nname: a\ndescription: ${"x".repeat(1025)}\n---\n`
+    );
+    expect(long.diagnostics).toMatchObject([
+      { code: "DESCRIPTION_TOO_LONG", line: 3 },
+    ]);
+  });
+
+  it("reports missing frontmatter", () => {
+    expect(validateSkill("# No frontmatter\n").diagnostics).toMatchObject([
+      { code: "MISSING_FRONTMATTER", severity: "error", line: 1 },
+    ]);
+    expect(validateSkill("---\nname: a\n").diagnostics).toMatchObject([
+      { code: "MISSING_FRONTMATTER", severity: "error", line: 1 },
+    ]);
+  });
+
+  it("reports YAML syntax errors", () => {
+    const source = "---\nname: a\ndescription: [unclosed\n---\n";
+
+    const { valid, diagnostics } = validateSkill(source);
+
+    expect(valid).toBe(false);
+    expect(diagnostics[0]).toMatchObject({
+      code: "INVALID_YAML",
+      file: "SKILL.md",
+    });
+    expect(diagnostics[0]?.line).toBeGreaterThanOrEqual(3);
+  });
+
+  it("warns about unknown fields and name mismatches", () => {
+    const source = VALID_SKILL_MD.replace("metadata:", "x-custom: 1\nmetadata:");
+
+    const { valid, diagnostics, frontmatter } = validateSkill(source, {
+      directoryName: "pdf",
+    });
+
+    expect(valid).toBe(true);
+    expect(frontmatter).not.toHaveProperty("x-custom");
+    expect(frontmatter?.extras).toEqual({ "x-custom": 1 });
+    expect(diagnostics).toMatchObject([
+      { code: "UNKNOWN_FIELD", severity: "warning", line: 4 },
+      { code: "NAME_MISMATCH", severity: "warning", line: 2 },
+    ]);
+  });
+
+  it("leaves out unknown fields that aren't JSON-serialisable", () => {
+    const source = VALID_SKILL_MD.replace(
+      "metadata:",
+      "x-limit: .inf\nx-tags: [a, b]\nmetadata:"
+    );
+
+    const { valid, diagnostics, frontmatter } = validateSkill(source);
+
+    expect(valid).toBe(true);
+    expect(frontmatter?.extras).toEqual({ "x-tags": ["a", "b"] });
+    expect(diagnostics).toMatchObject([
+      { code: "INVALID_FIELD", field: "x-limit", line: 4 },
+      { code: "UNKNOWN_FIELD", field: "x-tags", line: 5 },
+    ]);
+  });
+
+  it("accepts CRLF line endings", () => {
+    const result = validateSkill(VALID_SKILL_MD.replace(/\n/g, "\r\n"));
+
+    expect(result.valid).toBe(true);
+    expect(result.frontmatter?.name).toBe("pdf-processing");
+  });
+});
+
+describe("validateSkill content checks", () => {
+  const source = (body: string) =>
+    `---\nname: pdf-processing\ndescription: Extract text.\n---\n\n${body}`;
+
+  it("checks relative links against the skill's files", () => {
+    const { valid, diagnostics } = validateSkill(
+      source(
+        [
+          "See [the guide](references/GUIDE.md#setup) and [forms](./references/FORMS.md).",
+          "![logo](<assets/my logo.png>) [site](https://example.com) [top](#top)",
+          "[missing](references/MISSING.md) [outside](../other/SKILL.md)",
+          "[scripts](scripts/)",
+          "",
+          "```markdown",
+          "[example](not-checked.md)",
+          "```",
+          "",
+          "`[inline](not-checked.md)`",
+          "",
+          "[ref]: references/REF.md",
+        ].join("\n")
+      ),
+      {
+        files: [
+          "SKILL.md",
+          "references/GUIDE.md",
+          "references/FORMS.md",
+          "assets/my logo.png",
+          "scripts/run.py",
+        ],
+      }
+    );
+
+    expect(valid).toBe(false);
+    expect(
+      diagnostics.map(({ code, line, message }) => ({ code, line, message }))
+    ).toEqual([
+      {
+        code: "BROKEN_LINK",
+        line: 8,
+        message: expect.stringContaining("references/MISSING.md"),
+      },
+      {
+        code: "BROKEN_LINK",
+        line: 8,
+        message: expect.stringContaining("outside the skill directory"),
+      },
+      {
+        code: "BROKEN_LINK",
+        line: 17,
+        message: expect.stringContaining("references/REF.md"),
+      },
+    ]);
+  });
+
+  it("reports files the body never mentions", () => {
+    const { valid, diagnostics } = validateSkill(
+      "---\nname: a\ndescription: A.\nlicense: See LICENSE.txt\n---\nRun `scripts/run.py`.\n",
+      {
+        files: ["SKILL.md", "LICENSE.txt", "scripts/run.py", "notes.md"],
+      }
+    );
+
+    expect(valid).toBe(true);
+    expect(diagnostics).toMatchObject([
+      { code: "UNREFERENCED_FILE", severity: "warning", file: "notes.md" },
+    ]);
+  });
+
+  it("checks file paths", () => {
+    const { diagnostics } = validateSkill(source("[data](data[1].csv)"), {
+      files: ["SKILL.md", "data[1].csv"],
+    });
+
+    expect(diagnostics).toMatchObject([
+      { code: "INVALID_FILE_PATH", file: "data[1].csv" },
+    ]);
+  });
+
+  it("warns when the body exceeds the token budget", () => {
+    const body = "word ".repeat(100);
+
+    expect(validateSkill(source(body), { tokenBudget: 200 }).diagnostics).toEqual(
+      []
+    );
+    expect(
+      validateSkill(source(body), { tokenBudget: 100 }).diagnostics
+    ).toMatchObject([
+      { code: "BODY_TOO_LONG", severity: "warning", file: "SKILL.md", line: 5 },
+    ]);
+  });
+
+  it("skips content checks unless requested", () => {
+    expect(validateSkill(source("[missing](missing.md)")).diagnostics).toEqual(
+      []
+    );
+  });
+});
+
+describe("validateSkill with Skill objects", () => {
+  const skill: Skill = {
+    name: "test-skill",
+    description: "Test",
+    body: "Test",
+    files: ["SKILL.md"],
+    etag: "v1",
+    digests: {},
+  };
+
+  it("ignores non-frontmatter Skill fields", () => {
+    expect(validateSkill(skill)).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it("checks visibility", () => {
+    expect(validateSkill({ ...skill, visibility: "private" }).valid).toBe(true);
+    expect(
+      validateSkill({ ...skill, visibility: "internal" as "private" })
+        .diagnostics
+    ).toMatchObject([{ code: "INVALID_FIELD", field: "visibility" }]);
+  });
+
+  it("checks versions", () => {
+    expect(
+      validateSkill({ ...skill, version: "2.0.0", versions: ["2.0.0", "1.0.0"] })
+        .valid
+    ).toBe(true);
+    expect(
+      validateSkill({ ...skill, version: "1.0/2", versions: ["../1.0.0"] })
+        .diagnostics
+    ).toMatchObject([
+      { code: "INVALID_FIELD", field: "version" },
+      { code: "INVALID_FIELD", field: "versions" },
+    ]);
+  });
+
+  it("checks extras", () => {
+    expect(
+      validateSkill({ ...skill, extras: { owner: "docs-team" } }).diagnostics
+    ).toEqual([]);
+
+    const { valid, diagnostics } = validateSkill({
+      ...skill,
+      extras: { description: "Other", run: () => {} },
+    });
+    expect(valid).toBe(true);
+    expect(diagnostics.map((d) => [d.code, d.message])).toEqual([
+      [
+        "INVALID_FIELD",
+        'Invalid frontmatter: "extras.description" collides with the "description" field; it is not served',
+      ],
+      [
+        "INVALID_FIELD",
+        'Invalid frontmatter: "extras.run" must be JSON-serialisable; it is not served',
+      ],
+    ]);
+  });
+
+  it("checks the files array", () => {
+    const { diagnostics } = validateSkill({
+      ...skill,
+      files: ["../secret.txt", "notes#1.md"],
+    });
+
+    expect(diagnostics).toMatchObject([
+      { code: "MISSING_SKILL_MD" },
+      { code: "INVALID_FILE_PATH", file: "../secret.txt" },
+      { code: "INVALID_FILE_PATH", file: "notes#1.md" },
+    ]);
+  });
+});
+
+describe("SkillValidationError", () => {
+  it("is thrown by createStaticProvider with diagnostics", () => {
+    let error: unknown;
+    try {
+      createStaticProvider([
+        {
+          name: "Invalid_Name",
+          description: "",
+          body: "Test",
+          files: ["SKILL.md"],
+        },
+      ]);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(SkillValidationError);
+    expect((error as SkillValidationError).message).toMatch(
+      /^Invalid_Name: Invalid skill name .* \(and 1 more\)$/
+    );
+    expect(
+      (error as SkillValidationError).diagnostics.map((d) => d.code)
+    ).toEqual(["INVALID_NAME", "MISSING_DESCRIPTION"]);
+  });
+});
+
+describe("handler validation", () => {
+  it("does not serve invalid skills from custom providers", async () => {
+    const provider: SkillProvider = {
+      getSkills: () => [
+        {
+          name: "valid-skill",
+          description: "Valid.",
+          body: "# Valid",
+          files: ["SKILL.md"],
+        },
+        {
+          name: "invalid-skill",
+          description: "",
+          body: "# Invalid",
+          files: ["SKILL.md"],
+        },
+      ],
+      getSkillFile: () => null,
+    };
+    const handler = createSkillsHandler(provider);
+
+    const index = await handler(
+      new Request("https://example.com/.well-known/skills/index.json")
+    );
+    const { skills } = await index.json();
+    expect(skills.map((s: { name: string }) => s.name)).toEqual([
+      "valid-skill",
+    ]);
+
+    const response = await handler(
+      new Request(
+        "https://example.com/.well-known/skills/invalid-skill/SKILL.md"
+      )
+    );
+    expect(response.status).toBe(404);
+  });
+});